@@ -0,0 +1,503 @@
+/**
+ * Arm driver.
+ * Single owner of the arm connection, position and command sending in the main process.
+ * Both the MCP server and the renderer (via IPC) drive the arm through this class,
+ * so every client sees the same handle and position.
+ * Every gesture runs as one job on the command queue, so gestures from different
+ * clients never interleave and consecutive gestures are spaced by ARM_CONFIG.commandDelay.
+ * Workspace limits are checked inside each job, right before commands are sent.
+ */
+
+import { ARM_CONFIG, ArmAction, ArmState, createInitialArmState } from '../../shared/arm';
+import { buildArmApiUrl, parseResourceHandle } from './protocol';
+import { ArmCommandQueue, QueuedResult } from './queue';
+import {
+  DEFAULT_WORKSPACE_LIMITS,
+  WorkspaceLimits,
+  checkPosition,
+  checkPath,
+  checkDepth,
+} from '../../shared/workspace';
+
+/** HTTP request function type (injected from main process) */
+export type HttpRequestFn = (url: string) => Promise<string>;
+
+/** Arm state change listener */
+export type ArmStateListener = (state: Readonly<ArmState>) => void;
+
+/** Completed action listener */
+export type ArmActionListener = (action: ArmAction) => void;
+
+/** 2D position in millimeters */
+export interface ArmPosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * Delays execution for specified milliseconds.
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Rounds a position to whole millimeters and clamps it to non-negative values.
+ *
+ * @param position - Requested position
+ * @returns Position the controller can accept
+ */
+function normalizePosition(position: ArmPosition): ArmPosition {
+  return {
+    x: Math.max(0, Math.round(position.x)),
+    y: Math.max(0, Math.round(position.y)),
+  };
+}
+
+/**
+ * Rounds a depth to whole millimeters and clamps it to non-negative values.
+ *
+ * @param depth - Requested Z-axis depth
+ * @returns Depth the controller can accept
+ */
+export function normalizeDepth(depth: number): number {
+  return Math.max(0, Math.round(depth));
+}
+
+/**
+ * Mechanical arm driver.
+ * Gesture methods resolve with their result and queue statistics,
+ * and throw on failure; callers format errors for their own clients.
+ */
+export class ArmDriver {
+  private httpRequest: HttpRequestFn;
+  private state: ArmState = createInitialArmState();
+  private listeners: Set<ArmStateListener> = new Set();
+  private actionListeners: Set<ArmActionListener> = new Set();
+  private queue = new ArmCommandQueue(ARM_CONFIG.commandDelay);
+  private limits: WorkspaceLimits = DEFAULT_WORKSPACE_LIMITS;
+
+  constructor(httpRequest: HttpRequestFn) {
+    this.httpRequest = httpRequest;
+  }
+
+  /**
+   * Gets a snapshot of the current arm state.
+   */
+  getState(): Readonly<ArmState> {
+    return { ...this.state };
+  }
+
+  /**
+   * Replaces the workspace limits checked before every motion.
+   *
+   * @param limits - New workspace limits
+   */
+  setWorkspaceLimits(limits: WorkspaceLimits): void {
+    this.limits = limits;
+  }
+
+  /**
+   * Gets the number of gestures queued or running.
+   */
+  getQueueDepth(): number {
+    return this.queue.getDepth();
+  }
+
+  /**
+   * Subscribes to state changes.
+   *
+   * @param listener - Called with the new state after every change
+   * @returns Unsubscribe function
+   */
+  onStateChange(listener: ArmStateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribes to completed gestures (moves, presses, double taps and swipes).
+   * Used to record manual and agent operations into sequences.
+   *
+   * @param listener - Called after every successful gesture
+   * @returns Unsubscribe function
+   */
+  onAction(listener: ArmActionListener): () => void {
+    this.actionListeners.add(listener);
+    return () => {
+      this.actionListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Notifies action listeners of a completed gesture.
+   */
+  private emitAction(action: ArmAction): void {
+    this.actionListeners.forEach((listener) => listener(action));
+  }
+
+  /**
+   * Applies a partial state update and notifies listeners.
+   */
+  private updateState(updates: Partial<ArmState>): void {
+    this.state = { ...this.state, ...updates };
+    const snapshot = this.getState();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+
+  /**
+   * Throws a workspace rejection, if any.
+   *
+   * @param violation - Rejection message from a workspace check
+   * @throws Error with the rejection message
+   */
+  private enforce(violation: string | null): void {
+    if (violation) {
+      throw new Error(violation);
+    }
+  }
+
+  /**
+   * Sends a command using the current connection handle.
+   *
+   * @param daima - Command code
+   * @returns Raw server response
+   */
+  private send(daima: string): Promise<string> {
+    return this.httpRequest(
+      buildArmApiUrl(this.state.serverIP, {
+        duankou: '0',
+        hco: this.state.resourceHandle,
+        daima,
+      })
+    );
+  }
+
+  /**
+   * Ensures the arm is connected and past the device-ready delay.
+   *
+   * @throws Error if the arm cannot accept commands
+   */
+  private requireReady(): void {
+    if (!this.state.isConnected || this.state.resourceHandle <= 0) {
+      throw new Error('Not connected to arm controller');
+    }
+    if (!this.state.isReady) {
+      throw new Error('Arm controller is not ready yet');
+    }
+  }
+
+  /**
+   * Opens the COM port and waits for the device to become ready.
+   *
+   * @param serverIP - Server IP address (default from config)
+   * @param comPort - COM port (default from config)
+   * @returns Resource handle
+   * @throws Error if already connected or the port cannot be opened
+   */
+  async connect(
+    serverIP: string = ARM_CONFIG.defaultServerIP,
+    comPort: string = ARM_CONFIG.defaultComPort
+  ): Promise<QueuedResult<number>> {
+    const queued = await this.queue.run(async () => {
+      if (this.state.isConnected) {
+        throw new Error('Already connected. Disconnect first before reconnecting.');
+      }
+
+      this.updateState({ serverIP, comPort });
+
+      const response = await this.httpRequest(
+        buildArmApiUrl(serverIP, { duankou: comPort, hco: 0, daima: '0' })
+      );
+      const resourceHandle = parseResourceHandle(response);
+
+      if (resourceHandle <= 0) {
+        throw new Error(`Failed to open port ${comPort}. Check if port is occupied or device is connected.`);
+      }
+
+      this.updateState({
+        isConnected: true,
+        isReady: false,
+        resourceHandle,
+        currentX: 0,
+        currentY: 0,
+      });
+
+      return resourceHandle;
+    });
+
+    // Wait outside the queue; commands are rejected until the device is ready
+    await delay(ARM_CONFIG.deviceReadyDelay);
+
+    if (this.state.resourceHandle === queued.result) {
+      this.updateState({ isReady: true });
+    }
+
+    return queued;
+  }
+
+  /**
+   * Resets position to origin and closes the COM port.
+   * State is always reset, even if a command fails, to allow reconnection.
+   *
+   * @throws Error if a command fails (after state has been reset)
+   */
+  disconnect(): Promise<QueuedResult<void>> {
+    return this.queue.run(async () => {
+      const { isConnected, resourceHandle, serverIP, comPort } = this.state;
+
+      try {
+        if (isConnected && resourceHandle > 0) {
+          await this.send('X0Y0Z0');
+          await delay(ARM_CONFIG.commandDelay);
+          await this.send('0');
+        }
+      } finally {
+        this.state = { ...createInitialArmState(), serverIP, comPort };
+        this.updateState({});
+      }
+    });
+  }
+
+  /**
+   * Moves the arm to an absolute position.
+   * Coordinates are rounded and clamped to non-negative values,
+   * and must lie inside the workspace and outside no-go zones.
+   *
+   * @param x - Target X in millimeters
+   * @param y - Target Y in millimeters
+   * @returns Position actually sent to the controller
+   */
+  moveTo(x: number, y: number): Promise<QueuedResult<ArmPosition>> {
+    return this.queue.run(async () => {
+      const startedAt = Date.now();
+      const target = await this.moveNow({ x, y });
+      this.emitAction({ type: 'move', ...target, startedAt, finishedAt: Date.now() });
+      return target;
+    });
+  }
+
+  /**
+   * Sets the Z-axis depth without raising afterwards.
+   *
+   * @param z - Z-axis depth (0 = stylus raised)
+   */
+  setZ(z: number): Promise<QueuedResult<void>> {
+    return this.queue.run(async () => {
+      this.requireReady();
+      const depth = normalizeDepth(z);
+      this.enforce(checkDepth(this.limits, depth));
+      await this.send(`Z${depth}`);
+    });
+  }
+
+  /**
+   * Presses the stylus at the current position.
+   * Lowers to the given depth, holds for the given time, then raises it.
+   *
+   * @param depth - Z-axis depth in millimeters
+   * @param holdMs - Time to keep the stylus down (default: click delay)
+   */
+  press(depth: number, holdMs: number = ARM_CONFIG.clickDelay): Promise<QueuedResult<void>> {
+    return this.queue.run(async () => {
+      const startedAt = Date.now();
+      const pressedDepth = await this.pressNow(depth, holdMs);
+      this.emitAction({
+        type: 'press',
+        x: this.state.currentX,
+        y: this.state.currentY,
+        depth: pressedDepth,
+        holdMs,
+        startedAt,
+        finishedAt: Date.now(),
+      });
+    });
+  }
+
+  /**
+   * Moves to a position and clicks there as a single gesture,
+   * so no other client can move the arm between the move and the click.
+   *
+   * @param x - Target X in millimeters
+   * @param y - Target Y in millimeters
+   * @param depth - Z-axis depth in millimeters
+   * @returns Position actually sent to the controller
+   */
+  tap(x: number, y: number, depth: number): Promise<QueuedResult<ArmPosition>> {
+    return this.longPressAt(x, y, depth, ARM_CONFIG.clickDelay);
+  }
+
+  /**
+   * Moves to a position and presses there for the given time as a single gesture.
+   *
+   * @param x - Target X in millimeters
+   * @param y - Target Y in millimeters
+   * @param depth - Z-axis depth in millimeters
+   * @param holdMs - Time to keep the stylus down
+   * @returns Position actually sent to the controller
+   */
+  longPressAt(x: number, y: number, depth: number, holdMs: number): Promise<QueuedResult<ArmPosition>> {
+    return this.queue.run(async () => {
+      const target = await this.moveForGesture({ x, y });
+      const pressedAt = Date.now();
+      const pressedDepth = await this.pressNow(depth, holdMs);
+      this.emitAction({
+        type: 'press',
+        ...target,
+        depth: pressedDepth,
+        holdMs,
+        startedAt: pressedAt,
+        finishedAt: Date.now(),
+      });
+      return target;
+    });
+  }
+
+  /**
+   * Moves to a position and double taps there as a single gesture.
+   *
+   * @param x - Target X in millimeters
+   * @param y - Target Y in millimeters
+   * @param depth - Z-axis depth in millimeters
+   * @param gapMs - Time between lifting after the first tap and pressing again
+   * @returns Position actually sent to the controller
+   */
+  doubleTapAt(
+    x: number,
+    y: number,
+    depth: number,
+    gapMs: number = ARM_CONFIG.doubleTapGap
+  ): Promise<QueuedResult<ArmPosition>> {
+    return this.queue.run(async () => {
+      const target = await this.moveForGesture({ x, y });
+      const tappedAt = Date.now();
+      await this.pressNow(depth, ARM_CONFIG.clickDelay);
+      await delay(gapMs);
+      const pressedDepth = await this.pressNow(depth, ARM_CONFIG.clickDelay);
+      this.emitAction({
+        type: 'doubleTap',
+        ...target,
+        depth: pressedDepth,
+        gapMs,
+        startedAt: tappedAt,
+        finishedAt: Date.now(),
+      });
+      return target;
+    });
+  }
+
+  /**
+   * Performs two clicks at the current position.
+   *
+   * @param depth - Z-axis depth in millimeters
+   * @param gapMs - Time between lifting after the first tap and pressing again
+   */
+  doubleTap(depth: number, gapMs: number = ARM_CONFIG.doubleTapGap): Promise<QueuedResult<void>> {
+    return this.queue.run(async () => {
+      const startedAt = Date.now();
+      await this.pressNow(depth, ARM_CONFIG.clickDelay);
+      await delay(gapMs);
+      const pressedDepth = await this.pressNow(depth, ARM_CONFIG.clickDelay);
+      this.emitAction({
+        type: 'doubleTap',
+        x: this.state.currentX,
+        y: this.state.currentY,
+        depth: pressedDepth,
+        gapMs,
+        startedAt,
+        finishedAt: Date.now(),
+      });
+    });
+  }
+
+  /**
+   * Drags in a straight line from one point to another.
+   * The whole path must stay inside the workspace and outside no-go zones.
+   * On failure, a best-effort stylus raise is attempted so the pen is not left down.
+   *
+   * @param from - Start position in millimeters
+   * @param to - End position in millimeters
+   * @param zDepth - Z-axis depth while dragging (rounded to whole millimeters)
+   * @param holdMs - Time to hold at the end point before lifting
+   * @returns Normalized start and end positions
+   */
+  swipe(
+    from: ArmPosition,
+    to: ArmPosition,
+    zDepth: number,
+    holdMs: number = ARM_CONFIG.swipeHoldDelay
+  ): Promise<QueuedResult<{ from: ArmPosition; to: ArmPosition }>> {
+    return this.queue.run(async () => {
+      this.requireReady();
+      const start = normalizePosition(from);
+      const end = normalizePosition(to);
+      const depth = normalizeDepth(zDepth);
+      this.enforce(checkPath(this.limits, start, end));
+      this.enforce(checkDepth(this.limits, depth));
+      const startedAt = Date.now();
+
+      try {
+        await this.send(`X${start.x}Y${start.y}`);
+        this.updateState({ currentX: start.x, currentY: start.y });
+
+        await this.send(`Z${depth}`);
+        await delay(ARM_CONFIG.swipeDownDelay);
+
+        await this.send(`X${end.x}Y${end.y}`);
+        this.updateState({ currentX: end.x, currentY: end.y, zDepth: depth });
+
+        await delay(holdMs);
+        await this.send(`Z${ARM_CONFIG.zUp}`);
+      } catch (error) {
+        await this.send(`Z${ARM_CONFIG.zUp}`).catch(() => undefined);
+        throw error;
+      }
+
+      this.emitAction({ type: 'swipe', from: start, to: end, depth, holdMs, startedAt, finishedAt: Date.now() });
+      return { from: start, to: end };
+    });
+  }
+
+  /**
+   * Sends a move command. Must be called from inside a queued job.
+   */
+  private async moveNow(position: ArmPosition): Promise<ArmPosition> {
+    this.requireReady();
+    const target = normalizePosition(position);
+    this.enforce(checkPosition(this.limits, target));
+    await this.send(`X${target.x}Y${target.y}`);
+    this.updateState({ currentX: target.x, currentY: target.y });
+    return target;
+  }
+
+  /**
+   * Moves to the start of a gesture and waits for the arm to settle.
+   * Must be called from inside a queued job.
+   */
+  private async moveForGesture(position: ArmPosition): Promise<ArmPosition> {
+    const startedAt = Date.now();
+    const target = await this.moveNow(position);
+    this.emitAction({ type: 'move', ...target, startedAt, finishedAt: Date.now() });
+    await delay(ARM_CONFIG.commandDelay);
+    return target;
+  }
+
+  /**
+   * Lowers, holds and raises the stylus. Must be called from inside a queued job.
+   *
+   * @returns Depth actually sent to the controller
+   */
+  private async pressNow(zDepth: number, holdMs: number): Promise<number> {
+    this.requireReady();
+    const depth = normalizeDepth(zDepth);
+    this.enforce(checkDepth(this.limits, depth));
+    this.enforce(checkPosition(this.limits, { x: this.state.currentX, y: this.state.currentY }));
+    await this.send(`Z${depth}`);
+    await delay(holdMs);
+    await this.send(`Z${ARM_CONFIG.zUp}`);
+    this.updateState({ zDepth: depth });
+    return depth;
+  }
+}
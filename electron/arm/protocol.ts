@@ -0,0 +1,56 @@
+/**
+ * Arm controller HTTP protocol helpers.
+ * Builds request URLs and parses responses of the WCF arm service.
+ */
+
+import { ARM_CONFIG } from '../../shared/arm';
+
+/** Command parameters of the arm service */
+export interface ArmCommandParams {
+  /** COM port (e.g. "COM3") when opening, "0" for commands */
+  duankou: string;
+  /** Resource handle (0 when opening) */
+  hco: number;
+  /** Command code */
+  daima: string;
+}
+
+/**
+ * Builds the API URL for arm controller commands.
+ *
+ * @param serverIP - Server IP address
+ * @param params - Command parameters (duankou, hco, daima)
+ * @returns Complete API URL with query parameters
+ */
+export function buildArmApiUrl(serverIP: string, params: ArmCommandParams): string {
+  const baseUrl = `http://${serverIP}:${ARM_CONFIG.apiPort}${ARM_CONFIG.apiPath}`;
+  const queryParams = new URLSearchParams({
+    duankou: params.duankou,
+    hco: params.hco.toString(),
+    daima: params.daima,
+  });
+  return `${baseUrl}?${queryParams.toString()}`;
+}
+
+/**
+ * Parses server response by removing surrounding quotes.
+ * The server returns JSON-formatted strings (e.g., "1136"), which need quote stripping.
+ *
+ * @param response - Raw response string from server
+ * @returns Cleaned string without surrounding quotes
+ */
+export function parseServerResponse(response: string): string {
+  return response.replace(/^"|"$/g, '');
+}
+
+/**
+ * Parses resource handle from server response.
+ *
+ * @param response - Raw response string from server
+ * @returns Parsed resource handle (> 0 for success, 0 for failure)
+ */
+export function parseResourceHandle(response: string): number {
+  const cleanResult = parseServerResponse(response);
+  const handle = parseInt(cleanResult, 10);
+  return isNaN(handle) ? 0 : handle;
+}
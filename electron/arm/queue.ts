@@ -0,0 +1,87 @@
+/**
+ * Arm command queue.
+ * Runs arm jobs one at a time in submission order so commands from the UI and
+ * several MCP sessions never interleave at the controller, and keeps a minimum
+ * gap between the end of one job and the start of the next.
+ */
+
+/** Queue statistics for a single job */
+export interface ArmQueueStats {
+  /** Number of jobs queued or running ahead of this one when it was submitted */
+  depth: number;
+  /** Time spent waiting before the job started (ms), including enforced spacing */
+  waitMs: number;
+}
+
+/** Result of a queued job together with its queue statistics */
+export interface QueuedResult<T> {
+  result: T;
+  queue: ArmQueueStats;
+}
+
+/**
+ * Delays execution for specified milliseconds.
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * FIFO queue of arm jobs.
+ * A job is an atomic sequence of commands (e.g. a whole click or swipe);
+ * timing inside a job is left to the job itself.
+ */
+export class ArmCommandQueue {
+  private minSpacingMs: number;
+  private tail: Promise<void> = Promise.resolve();
+  private pending = 0;
+  private lastFinishedAt = 0;
+
+  constructor(minSpacingMs: number) {
+    this.minSpacingMs = minSpacingMs;
+  }
+
+  /**
+   * Gets the number of jobs queued or running.
+   */
+  getDepth(): number {
+    return this.pending;
+  }
+
+  /**
+   * Submits a job and waits for it to run.
+   *
+   * @param job - Commands to run while holding the queue
+   * @returns Job result and queue statistics
+   * @throws Whatever the job throws; the queue moves on to the next job
+   */
+  run<T>(job: () => Promise<T>): Promise<QueuedResult<T>> {
+    const depth = this.pending;
+    const submittedAt = Date.now();
+    this.pending++;
+
+    const queued = this.tail.then(async () => {
+      const spacing = this.lastFinishedAt + this.minSpacingMs - Date.now();
+      if (spacing > 0) {
+        await delay(spacing);
+      }
+
+      const waitMs = Date.now() - submittedAt;
+
+      try {
+        const result = await job();
+        return { result, queue: { depth, waitMs } };
+      } finally {
+        this.lastFinishedAt = Date.now();
+        this.pending--;
+      }
+    });
+
+    this.tail = queued.then(
+      () => undefined,
+      () => undefined
+    );
+
+    return queued;
+  }
+}
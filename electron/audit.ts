@@ -0,0 +1,174 @@
+/**
+ * Audit log of MCP tool calls.
+ * Appends one JSON line per tool call (session, tool, arguments, result,
+ * duration) to a log file in the user data directory, and saves the frames a
+ * call returned in a directory next to the log. A new log starts on every app
+ * launch and whenever the current one grows past the size limit; the oldest
+ * logs are deleted with their frames.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { getUserDataPath } from './storage';
+
+/** Audit log configuration */
+export const AUDIT_CONFIG = {
+  /** Audit directory in the user data directory */
+  dir: 'audit',
+  /** Start a new log once the current one is larger than this (bytes) */
+  maxFileBytes: 10 * 1024 * 1024,
+  /** Logs kept, including the current one */
+  maxFiles: 20,
+} as const;
+
+/** Frame returned by a tool call, as base64 image data */
+export interface AuditFrame {
+  data: string;
+  mimeType: string;
+}
+
+/** Tool call as reported by the MCP server */
+export interface AuditCall {
+  sessionId: string | null;
+  tool: string;
+  args: unknown;
+  /** JSON output of the tool (parsed from its text content), or the thrown error */
+  result: unknown;
+  /** True if the tool reported failure or threw */
+  isError: boolean;
+  /** When the call started (ms since epoch) */
+  startedAt: number;
+  durationMs: number;
+  frames: AuditFrame[];
+}
+
+/** Line of an audit log file */
+export interface AuditRecord {
+  /** Increasing number within the log file */
+  id: number;
+  /** ISO timestamp of when the call started */
+  timestamp: string;
+  sessionId: string | null;
+  tool: string;
+  args: unknown;
+  result: unknown;
+  isError: boolean;
+  durationMs: number;
+  /** Saved frames, relative to the audit directory */
+  frames: string[];
+}
+
+/** Open log file */
+interface AuditFile {
+  /** File name without extension, also the name of its frame directory */
+  name: string;
+  bytes: number;
+  nextId: number;
+}
+
+/**
+ * Builds a log name from a date, e.g. "mcp-20260314-153012-123".
+ */
+function createLogName(date: Date): string {
+  const stamp = date.toISOString().replace(/\D/g, '').slice(0, 17);
+  return `mcp-${stamp.slice(0, 8)}-${stamp.slice(8, 14)}-${stamp.slice(14)}`;
+}
+
+/**
+ * Append-only JSONL log of every MCP tool call, rotated by size.
+ */
+export class AuditLog {
+  private file: AuditFile | null = null;
+  /** Pending writes, chained so records stay in call order */
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * Gets the audit directory.
+   */
+  getPath(): string {
+    return getUserDataPath(AUDIT_CONFIG.dir);
+  }
+
+  /**
+   * Records a tool call. Writing happens in the background; failures are logged.
+   *
+   * @param call - Finished tool call
+   */
+  record(call: AuditCall): void {
+    this.writes = this.writes
+      .then(() => this.write(call))
+      .catch((error) => {
+        console.warn(`Failed to write audit record for ${call.tool}:`, error);
+      });
+  }
+
+  /**
+   * Saves the call's frames and appends its record to the current log.
+   */
+  private async write(call: AuditCall): Promise<void> {
+    const file = await this.currentFile();
+    const id = file.nextId++;
+    const frames: string[] = [];
+
+    if (call.frames.length > 0) {
+      await fs.mkdir(path.join(this.getPath(), file.name), { recursive: true });
+      for (let index = 0; index < call.frames.length; index++) {
+        const frame = call.frames[index];
+        const extension = frame.mimeType === 'image/png' ? 'png' : 'jpg';
+        const relative = path.join(file.name, `${id}-${index + 1}.${extension}`);
+        await fs.writeFile(path.join(this.getPath(), relative), Buffer.from(frame.data, 'base64'));
+        frames.push(relative);
+      }
+    }
+
+    const record: AuditRecord = {
+      id,
+      timestamp: new Date(call.startedAt).toISOString(),
+      sessionId: call.sessionId,
+      tool: call.tool,
+      args: call.args,
+      result: call.result,
+      isError: call.isError,
+      durationMs: call.durationMs,
+      frames,
+    };
+    const line = `${JSON.stringify(record)}\n`;
+    await fs.appendFile(path.join(this.getPath(), `${file.name}.jsonl`), line, 'utf-8');
+    file.bytes += Buffer.byteLength(line);
+  }
+
+  /**
+   * Returns the log to append to, starting a new one on first use or once
+   * the current one is full, and deleting the oldest logs beyond the limit.
+   */
+  private async currentFile(): Promise<AuditFile> {
+    if (this.file && this.file.bytes < AUDIT_CONFIG.maxFileBytes) {
+      return this.file;
+    }
+
+    await fs.mkdir(this.getPath(), { recursive: true });
+    this.file = { name: createLogName(new Date()), bytes: 0, nextId: 1 };
+    await this.prune(this.file.name);
+    return this.file;
+  }
+
+  /**
+   * Deletes the oldest logs and their frames so at most maxFiles remain.
+   *
+   * @param current - Name of the log being started (counted, not yet on disk)
+   */
+  private async prune(current: string): Promise<void> {
+    const entries = await fs.readdir(this.getPath());
+    const names = entries
+      .filter((entry) => entry.startsWith('mcp-') && entry.endsWith('.jsonl'))
+      .map((entry) => entry.slice(0, -'.jsonl'.length))
+      .filter((name) => name !== current)
+      .sort();
+
+    const excess = names.length + 1 - AUDIT_CONFIG.maxFiles;
+    for (const name of names.slice(0, Math.max(0, excess))) {
+      await fs.rm(path.join(this.getPath(), `${name}.jsonl`), { force: true });
+      await fs.rm(path.join(this.getPath(), name), { recursive: true, force: true });
+    }
+  }
+}
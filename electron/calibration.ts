@@ -0,0 +1,109 @@
+/**
+ * Calibration store for the main process.
+ * Loads, validates and persists the camera-to-arm calibration model,
+ * and keeps the active model in memory for MCP tools.
+ */
+
+import { z } from 'zod';
+import { readJsonFile, writeJsonFile, deleteFile } from './storage';
+import {
+  createCalibrationModel,
+  CalibrationModel,
+  CalibrationPoint,
+  FrameSize,
+} from '../shared/calibration';
+
+/** Calibration file name in the user data directory */
+const CALIBRATION_FILE = 'calibration.json';
+
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+
+const matrixSchema = z
+  .array(z.number())
+  .length(9)
+  .transform((m) => m as CalibrationModel['homography']);
+
+/** Schema used to validate calibration files loaded from disk */
+const calibrationModelSchema = z.object({
+  version: z.literal(1),
+  frameWidth: z.number().positive(),
+  frameHeight: z.number().positive(),
+  points: z.array(z.object({ pixel: pointSchema, arm: pointSchema })).min(4),
+  homography: matrixSchema,
+  inverseHomography: matrixSchema,
+  rmsError: z.number(),
+  createdAt: z.string(),
+});
+
+/** Active calibration model (null when not calibrated) */
+let calibration: CalibrationModel | null = null;
+
+/** Calibration change callback type */
+type CalibrationChangeCallback = (model: CalibrationModel | null) => void;
+
+/** Calibration change listener (set by main process) */
+let changeCallback: CalibrationChangeCallback | null = null;
+
+/**
+ * Gets the active calibration model.
+ *
+ * @returns Calibration model, or null if none is loaded
+ */
+export function getCalibration(): CalibrationModel | null {
+  return calibration;
+}
+
+/**
+ * Sets the callback invoked whenever the calibration changes.
+ * Called by main process to forward changes to the renderer.
+ *
+ * @param callback - Change listener
+ */
+export function setCalibrationChangeCallback(callback: CalibrationChangeCallback): void {
+  changeCallback = callback;
+}
+
+/**
+ * Loads the calibration model from disk.
+ * An invalid file is ignored (with a warning) so the app still starts.
+ *
+ * @returns Loaded model, or null if none is stored
+ */
+export async function loadCalibration(): Promise<CalibrationModel | null> {
+  try {
+    const data = await readJsonFile(CALIBRATION_FILE);
+    calibration = data === null ? null : calibrationModelSchema.parse(data);
+  } catch (error) {
+    console.warn('Ignoring invalid calibration file:', error);
+    calibration = null;
+  }
+  return calibration;
+}
+
+/**
+ * Fits a new calibration model from point pairs and persists it.
+ *
+ * @param points - Calibration point pairs (at least four)
+ * @param frame - Size of the frame the pixel coordinates refer to
+ * @returns Saved calibration model
+ * @throws Error if the points are insufficient or degenerate
+ */
+export async function saveCalibration(
+  points: CalibrationPoint[],
+  frame: FrameSize
+): Promise<CalibrationModel> {
+  const model = createCalibrationModel(points, frame);
+  await writeJsonFile(CALIBRATION_FILE, model);
+  calibration = model;
+  changeCallback?.(model);
+  return model;
+}
+
+/**
+ * Removes the stored calibration model.
+ */
+export async function clearCalibration(): Promise<void> {
+  await deleteFile(CALIBRATION_FILE);
+  calibration = null;
+  changeCallback?.(null);
+}
@@ -1,7 +1,51 @@
-import { app, BrowserWindow, ipcMain, net } from 'electron';
+import { app, BrowserWindow, ipcMain, net, shell } from 'electron';
+import fs from 'fs/promises';
 import path from 'path';
 import { PhonePilotMcpServer } from './mcp';
-import { setFrameCaptureCallback, setMcpLogCallback } from './mcp/state';
+import { captureFrame, setFrameCaptureCallback, setMcpLogCallback } from './mcp/state';
+import type { McpLogEntry } from './mcp/state';
+import {
+  loadCalibration,
+  getCalibration,
+  saveCalibration,
+  clearCalibration,
+  setCalibrationChangeCallback,
+} from './calibration';
+import type { CalibrationPoint, FrameSize, Point } from '../shared/calibration';
+import {
+  loadScreenRegion,
+  getScreenRegion,
+  saveScreenRegion,
+  clearScreenRegion,
+  setScreenRegionChangeCallback,
+} from './screen';
+import {
+  loadWorkspaceLimits,
+  getWorkspaceLimits,
+  saveWorkspaceLimits,
+  setWorkspaceChangeCallback,
+} from './workspace';
+import type { WorkspaceLimits } from '../shared/workspace';
+import type { CapturedFrame, FrameCaptureRequest } from '../shared/frame';
+import type { RecordingControlRequest } from '../shared/recording';
+import { SessionRecorder } from './recording';
+import { AuditLog } from './audit';
+import type { SequenceFile, SequenceParamValues, SequenceRunOptions } from '../shared/sequence';
+import {
+  loadSequences,
+  getSequenceLibrary,
+  getSequencesPath,
+  setSequencesChangeCallback,
+  saveSequence,
+  saveReferenceFrame,
+  watchSequences,
+  stopWatchingSequences,
+} from './sequences';
+import { SequenceRunner } from './sequences/runner';
+import { startArmSimulator } from './simulator';
+import { ArmDriver, ArmPosition } from './arm/driver';
+import { ArmLeaseManager } from './mcp/lease';
+import type { Server } from 'http';
 
 /**
  * Build output directory structure:
@@ -17,9 +61,15 @@ process.env.VITE_PUBLIC = app.isPackaged
 
 let mainWindow: BrowserWindow | null = null;
 let mcpServer: PhonePilotMcpServer | null = null;
+let simulatorServer: Server | null = null;
 
-/** Pending frame capture resolve function */
-let pendingFrameResolve: ((frame: string | null) => void) | null = null;
+/** Pending frame capture resolve functions by request ID */
+const pendingFrameRequests: Map<number, (frame: CapturedFrame | null) => void> = new Map();
+let nextFrameRequestId = 1;
+
+/** Pending recorder control resolve functions by request ID (error message or null) */
+const pendingRecordingRequests: Map<number, (error: string | null) => void> = new Map();
+let nextRecordingRequestId = 1;
 
 /** Use bracket notation to avoid vite:define plugin transformation */
 const VITE_DEV_SERVER_URL = process.env['VITE_DEV_SERVER_URL'];
@@ -70,7 +120,8 @@ function createWindow() {
 
 /**
  * Performs an HTTP request to the arm controller.
- * Used by MCP Server for arm control commands.
+ * Used by the arm driver for all arm control commands.
+ * Rejects on error status codes so failures reach the driver and its callers.
  */
 async function httpRequest(url: string): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -83,6 +134,10 @@ async function httpRequest(url: string): Promise<string> {
       });
 
       response.on('end', () => {
+        if (response.statusCode >= 400) {
+          reject(new Error(`Arm controller returned HTTP ${response.statusCode}: ${responseData}`));
+          return;
+        }
         resolve(responseData);
       });
 
@@ -99,42 +154,126 @@ async function httpRequest(url: string): Promise<string> {
   });
 }
 
+/** Arm driver shared by the renderer (via IPC) and the MCP Server */
+const armDriver = new ArmDriver(httpRequest);
+
+/** Forward every arm state change so the UI stays in sync with MCP activity */
+armDriver.onStateChange((state) => {
+  mainWindow?.webContents.send('arm-state-changed', state);
+});
+
+/** Forward completed gestures so the control panel can record them */
+armDriver.onAction((action) => {
+  mainWindow?.webContents.send('arm-action', action);
+});
+
+/** Runs auto-operation sequences for the renderer and MCP clients */
+const sequenceRunner = new SequenceRunner(armDriver, captureFrame);
+
+/** Forward run progress so the control panel follows runs started over MCP too */
+sequenceRunner.onProgress((progress) => {
+  mainWindow?.webContents.send('sequence-run-progress', progress);
+});
+
+/** Records the camera stream with timestamped arm actions and MCP calls */
+const sessionRecorder = new SessionRecorder(controlRendererRecorder);
+
+/** Forward recording changes so the UI toggle follows recordings started over MCP too */
+sessionRecorder.onChange((recording) => {
+  mainWindow?.webContents.send('recording-changed', recording);
+});
+
+/** Timestamp completed gestures in the active recording */
+armDriver.onAction((action) => {
+  sessionRecorder.recordArmAction(action);
+});
+
+/** Persists every MCP tool call to disk */
+const auditLog = new AuditLog();
+
+/** Tracks which MCP session holds the arm */
+const armLease = new ArmLeaseManager();
+
+/** Forward lease changes so the UI can show (and release) the holder */
+armLease.onChange((lease) => {
+  mainWindow?.webContents.send('arm-lease-changed', lease);
+});
+
 /**
  * Captures a frame from the renderer process via IPC.
  * Sends request to renderer and waits for response.
+ * Requests carry an ID so concurrent captures with different options don't mix.
+ *
+ * @param request - Options, source frame and screen region (everything but the ID)
  */
-async function captureFrameFromRenderer(): Promise<string | null> {
-  if (!mainWindow) {
+async function captureFrameFromRenderer(
+  request: Omit<FrameCaptureRequest, 'id'>
+): Promise<CapturedFrame | null> {
+  const window = mainWindow;
+  if (!window) {
     console.warn('Cannot capture frame: mainWindow is null');
     return null;
   }
 
+  const id = nextFrameRequestId++;
   return new Promise((resolve) => {
     // Set timeout in case renderer doesn't respond
     const timeout = setTimeout(() => {
-      pendingFrameResolve = null;
+      pendingFrameRequests.delete(id);
       resolve(null);
     }, 5000);
 
-    pendingFrameResolve = (frame: string | null) => {
+    pendingFrameRequests.set(id, (frame: CapturedFrame | null) => {
       clearTimeout(timeout);
-      pendingFrameResolve = null;
+      pendingFrameRequests.delete(id);
       resolve(frame);
-    };
+    });
 
     // Request frame from renderer
-    mainWindow.webContents.send('mcp-capture-frame-request');
+    window.webContents.send('mcp-capture-frame-request', { ...request, id });
   });
 }
 
 /**
- * Sends MCP log to renderer process.
+ * Starts or stops the MediaRecorder in the renderer via IPC.
+ * Stop requests resolve only after the renderer has sent its last chunk.
+ *
+ * @param request - Action and recording ID (everything but the request ID)
+ * @throws Error if the renderer cannot record or does not respond
  */
-function sendMcpLogToRenderer(log: {
-  type: 'request' | 'response' | 'error' | 'info';
-  action: string;
-  detail: string;
-}): void {
+async function controlRendererRecorder(request: Omit<RecordingControlRequest, 'id'>): Promise<void> {
+  const window = mainWindow;
+  if (!window) {
+    throw new Error('Cannot record: main window is not open');
+  }
+
+  const id = nextRecordingRequestId++;
+  return new Promise((resolve, reject) => {
+    // Set timeout in case renderer doesn't respond
+    const timeout = setTimeout(() => {
+      pendingRecordingRequests.delete(id);
+      reject(new Error('Renderer did not respond to the recording request'));
+    }, 10000);
+
+    pendingRecordingRequests.set(id, (error: string | null) => {
+      clearTimeout(timeout);
+      pendingRecordingRequests.delete(id);
+      if (error) {
+        reject(new Error(error));
+      } else {
+        resolve();
+      }
+    });
+
+    window.webContents.send('recording-control-request', { ...request, id });
+  });
+}
+
+/**
+ * Sends MCP log to renderer process and timestamps it in the active recording.
+ */
+function sendMcpLogToRenderer(log: McpLogEntry): void {
+  sessionRecorder.recordMcpLog(log);
   if (mainWindow) {
     mainWindow.webContents.send('mcp-log', log);
   }
@@ -151,7 +290,7 @@ async function startMcpServer(): Promise<void> {
   setMcpLogCallback(sendMcpLogToRenderer);
 
   // Create and start MCP server
-  mcpServer = new PhonePilotMcpServer(httpRequest);
+  mcpServer = new PhonePilotMcpServer(armDriver, armLease, sequenceRunner, sessionRecorder, auditLog);
   const port = await mcpServer.start();
 
   // Notify renderer when MCP server is ready
@@ -160,6 +299,22 @@ async function startMcpServer(): Promise<void> {
   }
 }
 
+/**
+ * Starts the built-in arm simulator when PHONEPILOT_SIMULATOR=1.
+ * PHONEPILOT_SIMULATOR_LATENCY (ms) and PHONEPILOT_SIMULATOR_FAILURE_RATE (0-1)
+ * configure latency and failure injection. Connect with server IP 127.0.0.1 to use it.
+ */
+async function startSimulatorIfEnabled(): Promise<void> {
+  if (process.env['PHONEPILOT_SIMULATOR'] !== '1') {
+    return;
+  }
+
+  simulatorServer = await startArmSimulator({
+    latencyMs: Number(process.env['PHONEPILOT_SIMULATOR_LATENCY'] ?? 0),
+    failureRate: Number(process.env['PHONEPILOT_SIMULATOR_FAILURE_RATE'] ?? 0),
+  });
+}
+
 /**
  * App initialization.
  * Creates window when Electron is ready.
@@ -167,8 +322,40 @@ async function startMcpServer(): Promise<void> {
  * On macOS, recreates window when dock icon is clicked with no windows open.
  */
 app.whenReady().then(async () => {
+  await loadCalibration();
+  setCalibrationChangeCallback((model) => {
+    mainWindow?.webContents.send('calibration-changed', model);
+  });
+
+  await loadScreenRegion();
+  setScreenRegionChangeCallback((region) => {
+    mainWindow?.webContents.send('screen-region-changed', region);
+  });
+
+  armDriver.setWorkspaceLimits(await loadWorkspaceLimits());
+  setWorkspaceChangeCallback((limits) => {
+    armDriver.setWorkspaceLimits(limits);
+    mainWindow?.webContents.send('workspace-changed', limits);
+  });
+
+  try {
+    await loadSequences();
+    setSequencesChangeCallback((library) => {
+      mainWindow?.webContents.send('sequences-changed', library);
+    });
+    watchSequences();
+  } catch (error) {
+    console.error('Failed to load sequences:', error);
+  }
+
   createWindow();
 
+  try {
+    await startSimulatorIfEnabled();
+  } catch (error) {
+    console.error('Failed to start arm simulator:', error);
+  }
+
   // Start MCP Server after window is created
   try {
     await startMcpServer();
@@ -190,12 +377,18 @@ app.on('window-all-closed', () => {
   }
 });
 
-/** Clean up MCP Server before quitting */
+/** Clean up MCP Server, simulator and file watchers before quitting */
 app.on('will-quit', () => {
+  stopWatchingSequences();
+  sessionRecorder.abort();
   if (mcpServer) {
     mcpServer.stop();
     mcpServer = null;
   }
+  if (simulatorServer) {
+    simulatorServer.close();
+    simulatorServer = null;
+  }
 });
 
 /** IPC handler: Returns app version */
@@ -208,49 +401,266 @@ ipcMain.handle('get-platform', () => {
   return process.platform;
 });
 
+/** IPC handler: Returns the current arm state */
+ipcMain.handle('arm-get-state', () => {
+  return armDriver.getState();
+});
+
 /**
- * IPC handler: Performs HTTP request from main process.
- * Bypasses CORS restrictions that would block renderer process requests.
+ * IPC handler: Connects to the arm controller.
  *
- * @param url - Target URL for the HTTP request
- * @returns Promise resolving to { status, data }
+ * @param serverIP - Server IP address
+ * @param comPort - COM port
+ * @returns Resource handle
  */
-ipcMain.handle('http-request', async (_event, url: string) => {
-  return new Promise((resolve, reject) => {
-    const request = net.request(url);
-    let responseData = '';
+ipcMain.handle('arm-connect', async (_event, serverIP: string, comPort: string) => {
+  const { result } = await armDriver.connect(serverIP, comPort);
+  return result;
+});
 
-    request.on('response', (response) => {
-      response.on('data', (chunk) => {
-        responseData += chunk.toString();
-      });
+/** IPC handler: Resets the arm to origin and disconnects */
+ipcMain.handle('arm-disconnect', async () => {
+  await armDriver.disconnect();
+});
 
-      response.on('end', () => {
-        resolve({
-          status: response.statusCode,
-          data: responseData,
-        });
-      });
+/**
+ * IPC handler: Moves the arm to an absolute position.
+ *
+ * @returns Position actually sent to the controller
+ */
+ipcMain.handle('arm-move', async (_event, x: number, y: number) => {
+  const { result } = await armDriver.moveTo(x, y);
+  return result;
+});
 
-      response.on('error', (error: Error) => {
-        reject(new Error(`Response error: ${error.message}`));
-      });
-    });
+/** IPC handler: Sets the Z-axis depth without raising afterwards */
+ipcMain.handle('arm-set-z', async (_event, z: number) => {
+  await armDriver.setZ(z);
+});
 
-    request.on('error', (error) => {
-      reject(new Error(`Request error: ${error.message}`));
-    });
+/** IPC handler: Presses the stylus at the current position */
+ipcMain.handle('arm-press', async (_event, depth: number, holdMs?: number) => {
+  await armDriver.press(depth, holdMs);
+});
 
-    request.end();
-  });
+/** IPC handler: Drags in a straight line between two positions */
+ipcMain.handle(
+  'arm-swipe',
+  async (_event, from: ArmPosition, to: ArmPosition, depth: number, holdMs?: number) => {
+    const { result } = await armDriver.swipe(from, to, depth, holdMs);
+    return result;
+  }
+);
+
+/** IPC handler: Performs two clicks at the current position */
+ipcMain.handle('arm-double-tap', async (_event, depth: number, gapMs?: number) => {
+  await armDriver.doubleTap(depth, gapMs);
+});
+
+/** IPC handler: Returns the MCP session lease on the arm (or null) */
+ipcMain.handle('arm-lease-get', () => {
+  return armLease.getLease();
+});
+
+/** IPC handler: Releases the arm from whichever MCP session holds it */
+ipcMain.handle('arm-lease-release', () => {
+  armLease.forceRelease();
+});
+
+/** IPC handler: Returns the active calibration model (or null) */
+ipcMain.handle('calibration-get', () => {
+  return getCalibration();
+});
+
+/**
+ * IPC handler: Fits and persists a calibration model from point pairs.
+ *
+ * @param points - Calibration point pairs (at least four)
+ * @param frame - Size of the frame the pixel coordinates refer to
+ * @returns Saved calibration model
+ */
+ipcMain.handle(
+  'calibration-save',
+  async (_event, points: CalibrationPoint[], frame: FrameSize) => {
+    return saveCalibration(points, frame);
+  }
+);
+
+/** IPC handler: Removes the stored calibration model */
+ipcMain.handle('calibration-clear', async () => {
+  await clearCalibration();
+});
+
+/** IPC handler: Returns the active screen region (or null) */
+ipcMain.handle('screen-region-get', () => {
+  return getScreenRegion();
+});
+
+/**
+ * IPC handler: Creates and persists the screen region from four corners.
+ *
+ * @param corners - Screen corners in frame pixels, in any order
+ * @param frame - Size of the frame the corners refer to
+ * @returns Saved screen region
+ */
+ipcMain.handle('screen-region-save', async (_event, corners: Point[], frame: FrameSize) => {
+  return saveScreenRegion(corners, frame);
+});
+
+/** IPC handler: Removes the stored screen region */
+ipcMain.handle('screen-region-clear', async () => {
+  await clearScreenRegion();
+});
+
+/** IPC handler: Returns the active workspace limits */
+ipcMain.handle('workspace-get', () => {
+  return getWorkspaceLimits();
+});
+
+/**
+ * IPC handler: Validates and persists new workspace limits.
+ *
+ * @param limits - Travel limits, max depth and no-go zones
+ * @returns Saved limits
+ */
+ipcMain.handle('workspace-save', async (_event, limits: WorkspaceLimits) => {
+  return saveWorkspaceLimits(limits);
+});
+
+/** IPC handler: Returns loaded sequences and load errors */
+ipcMain.handle('sequences-list', () => {
+  return getSequenceLibrary();
+});
+
+/**
+ * IPC handler: Saves a new sequence file (e.g. a recording)
+ *
+ * @param sequence - Sequence to save
+ * @returns Reloaded sequence library
+ */
+ipcMain.handle('sequences-save', async (_event, sequence: SequenceFile) => {
+  return saveSequence(sequence);
+});
+
+/**
+ * IPC handler: Runs a sequence by ID in the main process
+ *
+ * @param id - Sequence ID
+ * @param values - Parameter values (defaults fill the rest)
+ * @param options - Start step, breakpoints and whether to start paused
+ * @returns Run summary
+ */
+ipcMain.handle(
+  'sequence-run',
+  async (_event, id: string, values?: SequenceParamValues, options?: SequenceRunOptions) => {
+    const sequence = getSequenceLibrary().sequences.find((s) => s.id === id);
+    if (!sequence) {
+      throw new Error(`Sequence "${id}" not found`);
+    }
+    return sequenceRunner.run(sequence, values, options);
+  }
+);
+
+/** IPC handler: Cancels the active sequence run before its next step */
+ipcMain.handle('sequence-cancel', () => {
+  return sequenceRunner.cancel();
+});
+
+/** IPC handler: Pauses the active sequence run before its next step */
+ipcMain.handle('sequence-pause', () => {
+  return sequenceRunner.pause();
+});
+
+/** IPC handler: Resumes a paused sequence run until the next breakpoint */
+ipcMain.handle('sequence-resume', () => {
+  return sequenceRunner.resume();
+});
+
+/** IPC handler: Runs the next step of a paused sequence run */
+ipcMain.handle('sequence-step', () => {
+  return sequenceRunner.step();
+});
+
+/**
+ * IPC handler: Replaces the breakpoints of the active sequence run
+ *
+ * @param indices - Expanded step indices to pause before
+ */
+ipcMain.handle('sequence-set-breakpoints', (_event, indices: number[]) => {
+  sequenceRunner.setBreakpoints(indices);
+});
+
+/** IPC handler: Returns the progress of the active sequence run */
+ipcMain.handle('sequence-run-get', () => {
+  return sequenceRunner.getProgress();
+});
+
+/**
+ * IPC handler: Saves the current camera frame as a checkpoint reference
+ *
+ * @returns Reference file name for waitForMatch steps
+ */
+ipcMain.handle('sequences-capture-reference', async () => {
+  const frame = await captureFrame();
+  if (!frame) {
+    throw new Error('Failed to capture frame. Camera may not be ready.');
+  }
+  const stamp = new Date().toISOString().replace(/\D/g, '').slice(0, 14);
+  return saveReferenceFrame(`ref-${stamp}`, frame);
+});
+
+/** IPC handler: Opens the sequences directory in the system file manager */
+ipcMain.handle('sequences-open-folder', async () => {
+  const error = await shell.openPath(getSequencesPath());
+  if (error) {
+    throw new Error(error);
+  }
+});
+
+/** IPC handler: Returns the active recording (or null) */
+ipcMain.handle('recording-get', () => {
+  return sessionRecorder.getState();
+});
+
+/** IPC handler: Starts recording the camera stream from the UI */
+ipcMain.handle('recording-start', () => {
+  return sessionRecorder.start('ui');
+});
+
+/** IPC handler: Stops the active recording */
+ipcMain.handle('recording-stop', () => {
+  return sessionRecorder.stop();
+});
+
+/** IPC handler: Opens the MCP audit log directory in the system file manager */
+ipcMain.handle('audit-open-folder', async () => {
+  const dir = auditLog.getPath();
+  await fs.mkdir(dir, { recursive: true });
+  const error = await shell.openPath(dir);
+  if (error) {
+    throw new Error(error);
+  }
+});
+
+/**
+ * IPC listener: Receives a video chunk of the active recording from the renderer.
+ */
+ipcMain.on('recording-chunk', (_event, recordingId: string, data: Uint8Array) => {
+  sessionRecorder.appendChunk(recordingId, data);
+});
+
+/**
+ * IPC listener: Receives the outcome of a recorder start or stop from the renderer.
+ * Called in response to 'recording-control-request'.
+ */
+ipcMain.on('recording-control-response', (_event, id: number, error: string | null) => {
+  pendingRecordingRequests.get(id)?.(error);
 });
 
 /**
  * IPC listener: Receives captured frame from renderer process.
  * Called in response to 'mcp-capture-frame-request'.
  */
-ipcMain.on('mcp-capture-frame-response', (_event, frame: string | null) => {
-  if (pendingFrameResolve) {
-    pendingFrameResolve(frame);
-  }
+ipcMain.on('mcp-capture-frame-response', (_event, id: number, frame: CapturedFrame | null) => {
+  pendingFrameRequests.get(id)?.(frame);
 });
@@ -0,0 +1,73 @@
+/**
+ * Frame history.
+ * Keeps the most recent frames returned by MCP tools in a bounded ring buffer,
+ * each with the time it was captured, the arm position and the tool call that
+ * returned it, so agents can look back at what the screen showed before.
+ */
+
+import type { CapturedFrame } from '../../shared/frame';
+
+/** Frame history configuration */
+export const FRAME_HISTORY_CONFIG = {
+  /** Frames kept before the oldest is dropped */
+  capacity: 30,
+} as const;
+
+/** Frame kept in the history */
+export interface FrameHistoryEntry {
+  /** Increasing number assigned when the frame was recorded */
+  id: number;
+  /** ISO timestamp of when the frame was recorded */
+  timestamp: string;
+  /** Tool call that returned the frame */
+  tool: string;
+  /** Arm position when the frame was recorded */
+  armPosition: { x: number; y: number };
+  frame: CapturedFrame;
+}
+
+/**
+ * Bounded ring buffer of recent tool frames.
+ */
+export class FrameHistory {
+  private entries: (FrameHistoryEntry | undefined)[] = new Array(FRAME_HISTORY_CONFIG.capacity);
+  private nextId = 1;
+
+  /**
+   * Records a frame, dropping the oldest once the buffer is full.
+   *
+   * @param tool - Tool call that returned the frame
+   * @param armPosition - Arm position at capture time
+   * @param frame - Frame as returned to the client
+   * @returns The recorded entry
+   */
+  record(tool: string, armPosition: { x: number; y: number }, frame: CapturedFrame): FrameHistoryEntry {
+    const entry: FrameHistoryEntry = {
+      id: this.nextId++,
+      timestamp: new Date().toISOString(),
+      tool,
+      armPosition: { ...armPosition },
+      frame,
+    };
+    this.entries[entry.id % FRAME_HISTORY_CONFIG.capacity] = entry;
+    return entry;
+  }
+
+  /**
+   * Number of frames currently kept.
+   */
+  get size(): number {
+    return Math.min(this.nextId - 1, FRAME_HISTORY_CONFIG.capacity);
+  }
+
+  /**
+   * Lists kept frames, newest first.
+   */
+  list(): FrameHistoryEntry[] {
+    const result: FrameHistoryEntry[] = [];
+    for (let id = this.nextId - 1; id >= this.nextId - this.size; id--) {
+      result.push(this.entries[id % FRAME_HISTORY_CONFIG.capacity]!);
+    }
+    return result;
+  }
+}
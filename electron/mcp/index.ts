@@ -20,11 +20,47 @@ import {
   executeArmMove,
   armClickSchema,
   executeArmClick,
+  armSwipeSchema,
+  executeArmSwipe,
+  armTapSchema,
+  executeArmTap,
+  armTapPixelSchema,
+  executeArmTapPixel,
+  armLongPressSchema,
+  executeArmLongPress,
+  armDoubleTapSchema,
+  executeArmDoubleTap,
   captureFrameSchema,
   executeCaptureFrame,
+  runSequenceSchema,
+  executeRunSequence,
+  waitForStableScreenSchema,
+  executeWaitForStableScreen,
+  getFrameHistorySchema,
+  executeGetFrameHistory,
+  startRecordingSchema,
+  executeStartRecording,
+  stopRecordingSchema,
+  executeStopRecording,
 } from './tools';
-import { ARM_STATUS_URI, getArmStatusResource } from './resources';
-import { sendMcpLog } from './state';
+import {
+  ARM_STATUS_URI,
+  getArmStatusResource,
+  CALIBRATION_URI,
+  getCalibrationResource,
+  WORKSPACE_URI,
+  getWorkspaceResource,
+  SEQUENCES_URI,
+  getSequencesResource,
+} from './resources';
+import { runInLogSession, sendMcpLog } from './state';
+import { ArmLeaseManager, shortSessionId } from './lease';
+import { FrameHistory } from './frameHistory';
+import type { ArmDriver } from '../arm/driver';
+import type { SequenceRunner } from '../sequences/runner';
+import type { SessionRecorder } from '../recording';
+import type { AuditLog } from '../audit';
+import type { CapturedFrame } from '../../shared/frame';
 
 /** MCP Server configuration */
 const MCP_CONFIG = {
@@ -33,8 +69,38 @@ const MCP_CONFIG = {
   port: 3847,
 } as const;
 
-/** HTTP request function type (injected from main process) */
-type HttpRequestFn = (url: string) => Promise<string>;
+/** Lease holder ID for transports without session IDs */
+const ANONYMOUS_SESSION = 'anonymous';
+
+/** Tool result content item (JSON text or JPEG frame) */
+type ToolContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string };
+
+/**
+ * Builds tool result content from a JSON output and an optional frame.
+ * The frame is appended as an image after the JSON text, and its view, size,
+ * crop and scale are added to the JSON so pixel coordinates can be mapped
+ * back to the full frame.
+ */
+function buildFrameContent(output: object, frame: CapturedFrame | null): ToolContent[] {
+  if (!frame) {
+    return [{ type: 'text' as const, text: JSON.stringify(output, null, 2) }];
+  }
+
+  const { data, ...frameInfo } = frame;
+  return [
+    {
+      type: 'text' as const,
+      text: JSON.stringify({ ...output, frame: frameInfo }, null, 2),
+    },
+    {
+      type: 'image' as const,
+      data,
+      mimeType: frame.mimeType,
+    },
+  ];
+}
 
 /**
  * PhonePilot MCP Server class.
@@ -42,14 +108,29 @@ type HttpRequestFn = (url: string) => Promise<string>;
  */
 export class PhonePilotMcpServer {
   private httpServer: Server | null = null;
-  private httpRequest: HttpRequestFn;
+  private driver: ArmDriver;
+  private lease: ArmLeaseManager;
+  private runner: SequenceRunner;
+  private recorder: SessionRecorder;
+  private audit: AuditLog;
+  private frameHistory = new FrameHistory();
   
   // Transport storage for session management
   private streamableTransports: Map<string, StreamableHTTPServerTransport> = new Map();
   private sseTransports: Map<string, SSEServerTransport> = new Map();
 
-  constructor(httpRequest: HttpRequestFn) {
-    this.httpRequest = httpRequest;
+  constructor(
+    driver: ArmDriver,
+    lease: ArmLeaseManager,
+    runner: SequenceRunner,
+    recorder: SessionRecorder,
+    audit: AuditLog
+  ) {
+    this.driver = driver;
+    this.lease = lease;
+    this.runner = runner;
+    this.recorder = recorder;
+    this.audit = audit;
   }
 
   /**
@@ -67,8 +148,103 @@ export class PhonePilotMcpServer {
     return mcpServer;
   }
 
+  /**
+   * Acquires or renews the arm lease for a tool call.
+   * Returns an error result when another session holds the arm.
+   *
+   * @param action - Tool name for logging
+   * @param sessionId - Calling MCP session ID
+   * @returns Tool result to return instead of running the tool, or null to proceed
+   */
+  private checkArmLease(action: string, sessionId: string = ANONYMOUS_SESSION) {
+    const previous = this.lease.getLease();
+    const denied = this.lease.acquire(sessionId);
+
+    if (denied) {
+      sendMcpLog({ type: 'error', action, detail: denied });
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({ success: false, message: denied }, null, 2),
+          },
+        ],
+      };
+    }
+
+    if (previous?.sessionId !== sessionId) {
+      sendMcpLog({ type: 'info', action: 'lease', detail: `Arm acquired by session ${shortSessionId(sessionId)}` });
+    }
+    return null;
+  }
+
+  /**
+   * Keeps a tool's frame in the frame history, then builds its result content.
+   *
+   * @param tool - Tool name recorded with the frame
+   * @param output - Tool JSON output
+   * @param frame - Frame returned by the tool, if any
+   */
+  private recordFrameContent(tool: string, output: object, frame: CapturedFrame | null): ToolContent[] {
+    if (frame) {
+      const { currentX, currentY } = this.driver.getState();
+      this.frameHistory.record(tool, { x: currentX, y: currentY }, frame);
+    }
+    return buildFrameContent(output, frame);
+  }
+
+  /**
+   * Wraps a tool handler so every call is written to the audit log with its
+   * session, arguments, JSON output, duration and returned frames, and every
+   * log entry it sends is tagged with its session.
+   *
+   * @param tool - Tool name recorded with each call
+   * @param handler - Tool handler
+   */
+  private audited<A, E extends { sessionId?: string }, R extends { content: ToolContent[] }>(
+    tool: string,
+    handler: (args: A, extra: E) => Promise<R>
+  ): (args: A, extra: E) => Promise<R> {
+    return async (args: A, extra: E) => {
+      const startedAt = Date.now();
+      const record = (result: unknown, isError: boolean, content: ToolContent[]) => {
+        this.audit.record({
+          sessionId: extra.sessionId ?? null,
+          tool,
+          args,
+          result,
+          isError,
+          startedAt,
+          durationMs: Date.now() - startedAt,
+          frames: content.flatMap((item) => (item.type === 'image' ? [item] : [])),
+        });
+      };
+
+      try {
+        const response = await runInLogSession(extra.sessionId, () => handler(args, extra));
+        const text = response.content.find((item) => item.type === 'text');
+        let result: unknown = null;
+        if (text?.type === 'text') {
+          try {
+            result = JSON.parse(text.text);
+          } catch {
+            result = text.text;
+          }
+        }
+        const isError = (result as { success?: unknown } | null)?.success === false;
+        record(result, isError, response.content);
+        return response;
+      } catch (error) {
+        record({ error: error instanceof Error ? error.message : String(error) }, true, []);
+        throw error;
+      }
+    };
+  }
+
   /**
    * Registers all MCP tools.
+   * Arm tools require the arm lease; capture-frame, wait-for-stable-screen and get-frame-history are read-only and available to every session,
+   * as are start-recording and stop-recording.
    */
   private registerTools(mcpServer: McpServer): void {
     // arm-connect: Connect to mechanical arm
@@ -76,13 +252,20 @@ export class PhonePilotMcpServer {
       'arm-connect',
       'Connect to the mechanical arm controller via COM port. Returns a handle for subsequent operations.',
       armConnectSchema.shape,
-      async (args) => {
-        sendMcpLog({ type: 'request', action: 'arm-connect', detail: JSON.stringify(args) });
-        const result = await executeArmConnect(args, this.httpRequest);
+      this.audited('arm-connect', async (args, extra) => {
+        sendMcpLog({ type: 'request', action: 'arm-connect', detail: JSON.stringify(args), data: args });
+        const denied = this.checkArmLease('arm-connect', extra.sessionId);
+        if (denied) return denied;
+
+        const result = await executeArmConnect(args, this.driver);
+        if (!result.success && !this.driver.getState().isConnected) {
+          this.lease.release(extra.sessionId ?? ANONYMOUS_SESSION);
+        }
         sendMcpLog({
           type: result.success ? 'response' : 'error',
           action: 'arm-connect',
           detail: result.message,
+          data: result,
         });
         return {
           content: [
@@ -92,7 +275,7 @@ export class PhonePilotMcpServer {
             },
           ],
         };
-      }
+      })
     );
 
     // arm-disconnect: Disconnect from mechanical arm
@@ -100,13 +283,18 @@ export class PhonePilotMcpServer {
       'arm-disconnect',
       'Disconnect from the mechanical arm controller. Resets position to origin before closing.',
       armDisconnectSchema.shape,
-      async (args) => {
-        sendMcpLog({ type: 'request', action: 'arm-disconnect', detail: 'Disconnecting...' });
-        const result = await executeArmDisconnect(args, this.httpRequest);
+      this.audited('arm-disconnect', async (args, extra) => {
+        sendMcpLog({ type: 'request', action: 'arm-disconnect', detail: 'Disconnecting...', data: args });
+        const denied = this.checkArmLease('arm-disconnect', extra.sessionId);
+        if (denied) return denied;
+
+        const result = await executeArmDisconnect(args, this.driver);
+        this.lease.release(extra.sessionId ?? ANONYMOUS_SESSION);
         sendMcpLog({
           type: result.success ? 'response' : 'error',
           action: 'arm-disconnect',
           detail: result.message,
+          data: result,
         });
         return {
           content: [
@@ -116,71 +304,230 @@ export class PhonePilotMcpServer {
             },
           ],
         };
-      }
+      })
     );
 
     // arm-move: Move arm to position
     mcpServer.tool(
       'arm-move',
-      'Move the mechanical arm to a specified X,Y position in millimeters. Optionally returns a camera frame after moving.',
+      'Move the mechanical arm to a specified X,Y position in millimeters. The target must lie inside the workspace limits (see phonepilot://workspace). Optionally returns a camera frame after moving; set waitForStable to capture it once the screen stops changing.',
       armMoveSchema.shape,
-      async (args) => {
-        sendMcpLog({ type: 'request', action: 'arm-move', detail: `X${args.x} Y${args.y}` });
-        const { output, frame } = await executeArmMove(args, this.httpRequest);
+      this.audited('arm-move', async (args, extra) => {
+        sendMcpLog({ type: 'request', action: 'arm-move', detail: `X${args.x} Y${args.y}`, data: args });
+        const denied = this.checkArmLease('arm-move', extra.sessionId);
+        if (denied) return denied;
+
+        const { output, frame } = await executeArmMove(args, this.driver);
         sendMcpLog({
           type: output.success ? 'response' : 'error',
           action: 'arm-move',
           detail: output.message,
+          data: output,
         });
-        const content: Array<{ type: 'text'; text: string } | { type: 'image'; data: string; mimeType: string }> = [
-          {
-            type: 'text' as const,
-            text: JSON.stringify(output, null, 2),
-          },
-        ];
-
-        if (frame) {
-          content.push({
-            type: 'image' as const,
-            data: frame,
-            mimeType: 'image/jpeg',
-          });
-        }
-
-        return { content };
-      }
+        return { content: this.recordFrameContent('arm-move', output, frame) };
+      })
     );
 
     // arm-click: Perform click at current position
     mcpServer.tool(
       'arm-click',
-      'Perform a click operation at the current position. Lowers stylus, waits briefly, then raises it. Optionally returns a camera frame.',
+      'Perform a click operation at the current position. Lowers stylus, waits briefly, then raises it. Optionally returns a camera frame; set waitForStable to capture it once the screen stops changing instead of mid-animation.',
       armClickSchema.shape,
-      async (args) => {
-        sendMcpLog({ type: 'request', action: 'arm-click', detail: `depth=${args.depth || 12}` });
-        const { output, frame } = await executeArmClick(args, this.httpRequest);
+      this.audited('arm-click', async (args, extra) => {
+        sendMcpLog({ type: 'request', action: 'arm-click', detail: `depth=${args.depth || 12}`, data: args });
+        const denied = this.checkArmLease('arm-click', extra.sessionId);
+        if (denied) return denied;
+
+        const { output, frame } = await executeArmClick(args, this.driver);
         sendMcpLog({
           type: output.success ? 'response' : 'error',
           action: 'arm-click',
           detail: output.message,
+          data: output,
         });
-        const content: Array<{ type: 'text'; text: string } | { type: 'image'; data: string; mimeType: string }> = [
-          {
-            type: 'text' as const,
-            text: JSON.stringify(output, null, 2),
-          },
-        ];
-
-        if (frame) {
-          content.push({
-            type: 'image' as const,
-            data: frame,
-            mimeType: 'image/jpeg',
-          });
-        }
+        return { content: this.recordFrameContent('arm-click', output, frame) };
+      })
+    );
 
-        return { content };
-      }
+    // arm-tap: Move to position and click in one call
+    mcpServer.tool(
+      'arm-tap',
+      'Move the mechanical arm to X,Y in millimeters and click there in a single call. The target must lie inside the workspace limits. Returns one camera frame after the screen settles.',
+      armTapSchema.shape,
+      this.audited('arm-tap', async (args, extra) => {
+        sendMcpLog({
+          type: 'request',
+          action: 'arm-tap',
+          detail: `X${args.x} Y${args.y} depth=${args.depth || 12}`,
+          data: args,
+        });
+        const denied = this.checkArmLease('arm-tap', extra.sessionId);
+        if (denied) return denied;
+
+        const { output, frame } = await executeArmTap(args, this.driver);
+        sendMcpLog({
+          type: output.success ? 'response' : 'error',
+          action: 'arm-tap',
+          detail: output.message,
+          data: output,
+        });
+        return { content: this.recordFrameContent('arm-tap', output, frame) };
+      })
+    );
+
+    // arm-tap-pixel: Tap at a camera frame pixel using calibration
+    mcpServer.tool(
+      'arm-tap-pixel',
+      'Tap at a pixel position (px, py) of the frame returned by capture-frame. The pixel is converted to arm millimetres using the camera calibration. Returns the resolved arm position and one camera frame after the screen settles.',
+      armTapPixelSchema.shape,
+      this.audited('arm-tap-pixel', async (args, extra) => {
+        sendMcpLog({
+          type: 'request',
+          action: 'arm-tap-pixel',
+          detail: `px=${args.px} py=${args.py} depth=${args.depth || 12}`,
+          data: args,
+        });
+        const denied = this.checkArmLease('arm-tap-pixel', extra.sessionId);
+        if (denied) return denied;
+
+        const { output, frame } = await executeArmTapPixel(args, this.driver);
+        sendMcpLog({
+          type: output.success ? 'response' : 'error',
+          action: 'arm-tap-pixel',
+          detail: output.message,
+          data: output,
+        });
+        return { content: this.recordFrameContent('arm-tap-pixel', output, frame) };
+      })
+    );
+
+    // arm-swipe: Drag from start point to end point
+    mcpServer.tool(
+      'arm-swipe',
+      'Perform a straight-line swipe from a start X,Y to an end X,Y in millimeters. Lowers the stylus at the start, drags to the end, holds, then lifts. The whole path must avoid no-go zones. Optionally returns a camera frame.',
+      armSwipeSchema.shape,
+      this.audited('arm-swipe', async (args, extra) => {
+        sendMcpLog({
+          type: 'request',
+          action: 'arm-swipe',
+          detail: `(${args.startX}, ${args.startY}) → (${args.endX}, ${args.endY}) depth=${args.depth || 12}`,
+          data: args,
+        });
+        const denied = this.checkArmLease('arm-swipe', extra.sessionId);
+        if (denied) return denied;
+
+        const { output, frame } = await executeArmSwipe(args, this.driver);
+        sendMcpLog({
+          type: output.success ? 'response' : 'error',
+          action: 'arm-swipe',
+          detail: output.message,
+          data: output,
+        });
+        return { content: this.recordFrameContent('arm-swipe', output, frame) };
+      })
+    );
+
+    // arm-long-press: Press and hold at current position
+    mcpServer.tool(
+      'arm-long-press',
+      'Press and hold the stylus at the current position for a given duration in milliseconds, then lift. Use for context menus and press-and-hold interactions. Optionally returns a camera frame.',
+      armLongPressSchema.shape,
+      this.audited('arm-long-press', async (args, extra) => {
+        sendMcpLog({
+          type: 'request',
+          action: 'arm-long-press',
+          detail: `duration=${args.duration || 1000}ms depth=${args.depth || 12}`,
+          data: args,
+        });
+        const denied = this.checkArmLease('arm-long-press', extra.sessionId);
+        if (denied) return denied;
+
+        const { output, frame } = await executeArmLongPress(args, this.driver);
+        sendMcpLog({
+          type: output.success ? 'response' : 'error',
+          action: 'arm-long-press',
+          detail: output.message,
+          data: output,
+        });
+        return { content: this.recordFrameContent('arm-long-press', output, frame) };
+      })
+    );
+
+    // arm-double-tap: Two quick clicks at current position
+    mcpServer.tool(
+      'arm-double-tap',
+      'Perform a double tap at the current position with a configurable gap in milliseconds between the two taps. Optionally returns a camera frame.',
+      armDoubleTapSchema.shape,
+      this.audited('arm-double-tap', async (args, extra) => {
+        sendMcpLog({
+          type: 'request',
+          action: 'arm-double-tap',
+          detail: `gap=${args.gap ?? 100}ms depth=${args.depth || 12}`,
+          data: args,
+        });
+        const denied = this.checkArmLease('arm-double-tap', extra.sessionId);
+        if (denied) return denied;
+
+        const { output, frame } = await executeArmDoubleTap(args, this.driver);
+        sendMcpLog({
+          type: output.success ? 'response' : 'error',
+          action: 'arm-double-tap',
+          detail: output.message,
+          data: output,
+        });
+        return { content: this.recordFrameContent('arm-double-tap', output, frame) };
+      })
+    );
+
+    // run-sequence: Run an auto-operation sequence by ID
+    mcpServer.tool(
+      'run-sequence',
+      'Run an auto-operation sequence from phonepilot://sequences by ID, with optional parameter values (e.g. a PIN or word list). Steps run one by one in PhonePilot; progress is reported after every step when the request carries a progress token. Returns a summary of completed and failed steps and one camera frame after the run ends.',
+      runSequenceSchema.shape,
+      this.audited('run-sequence', async (args, extra) => {
+        sendMcpLog({ type: 'request', action: 'run-sequence', detail: `id=${args.id}`, data: args });
+        const denied = this.checkArmLease('run-sequence', extra.sessionId);
+        if (denied) return denied;
+
+        const sessionId = extra.sessionId ?? ANONYMOUS_SESSION;
+        const progressToken = extra._meta?.progressToken;
+        const { output, frame } = await executeRunSequence(args, this.runner, (progress) => {
+          // Long runs keep the lease alive step by step, and stop once the
+          // session closes or the operator releases the arm
+          if (this.lease.getLease()?.sessionId === sessionId) {
+            this.lease.acquire(sessionId);
+          } else {
+            this.runner.cancel();
+          }
+          if (progress.status === 'running') {
+            sendMcpLog({
+              type: 'info',
+              action: 'run-sequence',
+              detail: `[${progress.stepIndex + 1}/${progress.totalSteps}] ${progress.label}`,
+            });
+          }
+          if (progressToken !== undefined) {
+            extra
+              .sendNotification({
+                method: 'notifications/progress',
+                params: {
+                  progressToken,
+                  progress: progress.completedSteps,
+                  total: progress.totalSteps,
+                  message: progress.label,
+                },
+              })
+              .catch(() => undefined);
+          }
+        });
+        sendMcpLog({
+          type: output.success ? 'response' : 'error',
+          action: 'run-sequence',
+          detail: output.message,
+          data: output,
+        });
+        return { content: this.recordFrameContent('run-sequence', output, frame) };
+      })
     );
 
     // capture-frame: Capture camera frame
@@ -188,31 +535,102 @@ export class PhonePilotMcpServer {
       'capture-frame',
       'Capture the current camera frame. Returns a JPEG image showing the current view.',
       captureFrameSchema.shape,
-      async (args) => {
-        sendMcpLog({ type: 'request', action: 'capture-frame', detail: 'Capturing...' });
-        const { output, frame } = await executeCaptureFrame(args);
+      this.audited('capture-frame', async (args) => {
+        sendMcpLog({ type: 'request', action: 'capture-frame', detail: 'Capturing...', data: args });
+        const { output, frame } = await executeCaptureFrame(args, this.driver);
         sendMcpLog({
           type: output.success ? 'response' : 'error',
           action: 'capture-frame',
           detail: output.message,
+          data: output,
         });
-        const content: Array<{ type: 'text'; text: string } | { type: 'image'; data: string; mimeType: string }> = [
-          {
-            type: 'text' as const,
-            text: JSON.stringify(output, null, 2),
-          },
-        ];
-
-        if (frame) {
-          content.push({
-            type: 'image' as const,
-            data: frame,
-            mimeType: 'image/jpeg',
-          });
-        }
+        return { content: this.recordFrameContent('capture-frame', output, frame) };
+      })
+    );
 
-        return { content };
-      }
+    // wait-for-stable-screen: Wait until the camera frame stops changing
+    mcpServer.tool(
+      'wait-for-stable-screen',
+      'Wait until the screen stops changing (e.g. after an animation or page load): consecutive camera frames must differ by less than the threshold for the settle time. Returns the stable frame and how long it took, or the last frame if the timeout expires first.',
+      waitForStableScreenSchema.shape,
+      this.audited('wait-for-stable-screen', async (args) => {
+        sendMcpLog({ type: 'request', action: 'wait-for-stable-screen', detail: JSON.stringify(args), data: args });
+        const { output, frame } = await executeWaitForStableScreen(args);
+        sendMcpLog({
+          type: output.success ? 'response' : 'error',
+          action: 'wait-for-stable-screen',
+          detail: output.message,
+          data: output,
+        });
+        return { content: this.recordFrameContent('wait-for-stable-screen', output, frame) };
+      })
+    );
+
+    // get-frame-history: Fetch frames returned by earlier tool calls
+    mcpServer.tool(
+      'get-frame-history',
+      'Get frames returned by earlier tool calls, newest first, to look back at what the screen showed before recent actions. Select by index (0 = most recent) and count, optionally within a since/until time range. Each frame lists its timestamp, the tool call that returned it and the arm position at the time.',
+      getFrameHistorySchema.shape,
+      this.audited('get-frame-history', async (args) => {
+        sendMcpLog({ type: 'request', action: 'get-frame-history', detail: JSON.stringify(args), data: args });
+        const { output, frames } = executeGetFrameHistory(args, this.frameHistory);
+        sendMcpLog({
+          type: output.success ? 'response' : 'error',
+          action: 'get-frame-history',
+          detail: output.message,
+          data: output,
+        });
+        return {
+          content: [
+            { type: 'text' as const, text: JSON.stringify(output, null, 2) },
+            ...frames.map((frame) => ({
+              type: 'image' as const,
+              data: frame.data,
+              mimeType: frame.mimeType,
+            })),
+          ],
+        };
+      })
+    );
+
+    // start-recording: Record the camera stream with timestamped events
+    mcpServer.tool(
+      'start-recording',
+      'Start recording the camera stream to a video file in the PhonePilot user data directory. Arm actions and MCP calls are timestamped in a sidecar .events.jsonl file (t = ms from the start of the video) so they can be lined up with the footage. Only one recording runs at a time.',
+      startRecordingSchema.shape,
+      this.audited('start-recording', async (args, extra) => {
+        sendMcpLog({ type: 'request', action: 'start-recording', detail: 'Starting recording...', data: args });
+        const result = await executeStartRecording(args, this.recorder, extra.sessionId);
+        sendMcpLog({
+          type: result.success ? 'response' : 'error',
+          action: 'start-recording',
+          detail: result.message,
+          data: result,
+        });
+        return {
+          content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }],
+        };
+      })
+    );
+
+    // stop-recording: Stop the active recording
+    mcpServer.tool(
+      'stop-recording',
+      'Stop the active recording (started by any session or the operator) and return the paths of the video and event files, the duration and the number of events.',
+      stopRecordingSchema.shape,
+      this.audited('stop-recording', async (args) => {
+        sendMcpLog({ type: 'request', action: 'stop-recording', detail: 'Stopping recording...', data: args });
+        const result = await executeStopRecording(args, this.recorder);
+        sendMcpLog({
+          type: result.success ? 'response' : 'error',
+          action: 'stop-recording',
+          detail: result.message,
+          data: result,
+        });
+        return {
+          content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }],
+        };
+      })
     );
   }
 
@@ -228,7 +646,11 @@ export class PhonePilotMcpServer {
         mimeType: 'application/json',
       },
       async () => {
-        const status = getArmStatusResource();
+        const status = getArmStatusResource(
+          this.driver.getState(),
+          this.driver.getQueueDepth(),
+          this.lease.getLease()
+        );
         return {
           contents: [
             {
@@ -240,6 +662,69 @@ export class PhonePilotMcpServer {
         };
       }
     );
+
+    mcpServer.resource(
+      'calibration',
+      CALIBRATION_URI,
+      {
+        description: 'Camera-to-arm calibration status (frame size, fit error, pixel to millimetre homography)',
+        mimeType: 'application/json',
+      },
+      async () => {
+        const calibration = getCalibrationResource();
+        return {
+          contents: [
+            {
+              uri: CALIBRATION_URI,
+              mimeType: 'application/json',
+              text: JSON.stringify(calibration, null, 2),
+            },
+          ],
+        };
+      }
+    );
+
+    mcpServer.resource(
+      'workspace',
+      WORKSPACE_URI,
+      {
+        description: 'Arm workspace limits (max X/Y travel, max Z depth, no-go zones) enforced on every move, click and swipe',
+        mimeType: 'application/json',
+      },
+      async () => {
+        const workspace = getWorkspaceResource();
+        return {
+          contents: [
+            {
+              uri: WORKSPACE_URI,
+              mimeType: 'application/json',
+              text: JSON.stringify(workspace, null, 2),
+            },
+          ],
+        };
+      }
+    );
+
+    mcpServer.resource(
+      'sequences',
+      SEQUENCES_URI,
+      {
+        description: 'Auto-operation sequences accepted by run-sequence (ID, name, step count), load errors and the active run',
+        mimeType: 'application/json',
+      },
+      async () => {
+        const catalog = getSequencesResource(this.runner.getProgress());
+        return {
+          contents: [
+            {
+              uri: SEQUENCES_URI,
+              mimeType: 'application/json',
+              text: JSON.stringify(catalog, null, 2),
+            },
+          ],
+        };
+      }
+    );
   }
 
   /**
@@ -284,11 +769,13 @@ export class PhonePilotMcpServer {
         },
       });
 
-      // Clean up on close
+      // Clean up on close and give up the arm if this session held it
       transport.onclose = () => {
-        if (sessionId) {
-          this.streamableTransports.delete(sessionId);
-          sendMcpLog({ type: 'info', action: 'session', detail: `Streamable HTTP disconnected: ${sessionId.slice(0, 8)}...` });
+        const closedSessionId = transport!.sessionId;
+        if (closedSessionId) {
+          this.streamableTransports.delete(closedSessionId);
+          this.lease.release(closedSessionId);
+          sendMcpLog({ type: 'info', action: 'session', detail: `Streamable HTTP disconnected: ${closedSessionId.slice(0, 8)}...` });
         }
       };
 
@@ -341,6 +828,7 @@ export class PhonePilotMcpServer {
 
       res.on('close', () => {
         this.sseTransports.delete(sessionId);
+        this.lease.release(sessionId);
         sendMcpLog({ type: 'info', action: 'session', detail: `SSE disconnected: ${sessionId.slice(0, 8)}...` });
       });
     });
@@ -0,0 +1,130 @@
+/**
+ * Arm lease management.
+ * Only one MCP session may drive the arm at a time. A session acquires the
+ * lease with arm-connect (or its first arm tool call while the arm is free)
+ * and renews it with every arm tool call. The lease is released when the
+ * session disconnects, closes, goes idle, or the operator releases it.
+ */
+
+import type { ArmLease } from '../../shared/arm';
+
+/** Lease configuration */
+export const LEASE_CONFIG = {
+  /** Release the lease after this long without arm tool calls (ms) */
+  inactivityTimeout: 5 * 60 * 1000,
+} as const;
+
+/** Lease change listener (null = arm is free) */
+export type ArmLeaseListener = (lease: ArmLease | null) => void;
+
+/**
+ * Shortens a session ID for messages and logs.
+ */
+export function shortSessionId(sessionId: string): string {
+  return sessionId.slice(0, 8);
+}
+
+/**
+ * Tracks which MCP session holds the arm.
+ */
+export class ArmLeaseManager {
+  private lease: ArmLease | null = null;
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: Set<ArmLeaseListener> = new Set();
+
+  /**
+   * Gets the current lease, or null if the arm is free.
+   */
+  getLease(): ArmLease | null {
+    return this.lease ? { ...this.lease } : null;
+  }
+
+  /**
+   * Subscribes to lease changes.
+   *
+   * @param listener - Called with the new lease after every acquire, renew or release
+   * @returns Unsubscribe function
+   */
+  onChange(listener: ArmLeaseListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Acquires the lease for a session, or renews it if the session already holds it.
+   *
+   * @param sessionId - MCP session ID
+   * @returns Error message if another session holds the arm, otherwise null
+   */
+  acquire(sessionId: string): string | null {
+    const now = Date.now();
+
+    if (this.lease && this.lease.sessionId !== sessionId) {
+      const idleSeconds = Math.round((now - this.lease.lastActivityAt) / 1000);
+      const expiresIn = Math.max(0, Math.round((this.lease.expiresAt - now) / 1000));
+      return (
+        `Arm is held by session ${shortSessionId(this.lease.sessionId)} ` +
+        `(idle ${idleSeconds}s, lease expires in ${expiresIn}s unless renewed). ` +
+        'capture-frame is still available; retry later or ask the operator to release the arm.'
+      );
+    }
+
+    this.lease = {
+      sessionId,
+      acquiredAt: this.lease?.acquiredAt ?? now,
+      lastActivityAt: now,
+      expiresAt: now + LEASE_CONFIG.inactivityTimeout,
+    };
+    this.scheduleExpiry();
+    this.notify();
+    return null;
+  }
+
+  /**
+   * Releases the lease if it is held by the given session.
+   *
+   * @param sessionId - MCP session ID
+   */
+  release(sessionId: string): void {
+    if (this.lease?.sessionId === sessionId) {
+      this.forceRelease();
+    }
+  }
+
+  /**
+   * Releases the lease regardless of the holder (operator override or expiry).
+   */
+  forceRelease(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+    if (this.lease) {
+      this.lease = null;
+      this.notify();
+    }
+  }
+
+  /**
+   * Restarts the inactivity timer for the current lease.
+   */
+  private scheduleExpiry(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+    }
+    this.expiryTimer = setTimeout(() => {
+      this.expiryTimer = null;
+      this.forceRelease();
+    }, LEASE_CONFIG.inactivityTimeout);
+  }
+
+  /**
+   * Notifies listeners of the current lease.
+   */
+  private notify(): void {
+    const snapshot = this.getLease();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+}
@@ -1,13 +1,33 @@
 /**
  * MCP Resources module.
- * Provides read-only access to arm controller status.
+ * Provides read-only access to arm controller status, calibration, workspace limits
+ * and the sequence catalog.
  */
 
-import { getArmState } from '../state';
+import type { ArmState, ArmLease } from '../../../shared/arm';
+import { getCalibration } from '../../calibration';
+import { getWorkspaceLimits } from '../../workspace';
+import type { WorkspaceLimits } from '../../../shared/workspace';
+import { getSequenceLibrary } from '../../sequences';
+import {
+  SequenceLoadError,
+  SequenceParam,
+  SequenceRunProgress,
+  expandSequence,
+} from '../../../shared/sequence';
 
 /** Arm status resource URI */
 export const ARM_STATUS_URI = 'phonepilot://arm/status';
 
+/** Calibration resource URI */
+export const CALIBRATION_URI = 'phonepilot://calibration';
+
+/** Workspace limits resource URI */
+export const WORKSPACE_URI = 'phonepilot://workspace';
+
+/** Sequence catalog resource URI */
+export const SEQUENCES_URI = 'phonepilot://sequences';
+
 /** Arm status resource interface */
 export interface ArmStatusResource {
   connected: boolean;
@@ -21,15 +41,29 @@ export interface ArmStatusResource {
     comPort: string;
     zDepth: number;
   };
+  /** Number of gestures queued or running */
+  queueDepth: number;
+  /** MCP session holding the arm, or null if the arm is free */
+  lease: {
+    sessionId: string;
+    acquiredAt: string;
+    expiresAt: string;
+  } | null;
   timestamp: string;
 }
 
 /**
  * Gets the current arm status as a resource.
+ *
+ * @param state - Arm state snapshot from the driver
+ * @param queueDepth - Number of gestures queued or running
+ * @param lease - Current arm lease (null if free)
  */
-export function getArmStatusResource(): ArmStatusResource {
-  const state = getArmState();
-
+export function getArmStatusResource(
+  state: Readonly<ArmState>,
+  queueDepth: number,
+  lease: ArmLease | null
+): ArmStatusResource {
   return {
     connected: state.isConnected,
     handle: state.resourceHandle,
@@ -42,6 +76,116 @@ export function getArmStatusResource(): ArmStatusResource {
       comPort: state.comPort,
       zDepth: state.zDepth,
     },
+    queueDepth,
+    lease: lease
+      ? {
+          sessionId: lease.sessionId,
+          acquiredAt: new Date(lease.acquiredAt).toISOString(),
+          expiresAt: new Date(lease.expiresAt).toISOString(),
+        }
+      : null,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/** Calibration resource interface */
+export interface CalibrationResource {
+  calibrated: boolean;
+  frame?: {
+    width: number;
+    height: number;
+  };
+  pointCount?: number;
+  rmsErrorMm?: number;
+  /** Row-major 3x3 homography mapping frame pixels to arm millimetres */
+  pixelToMm?: number[];
+  createdAt?: string;
+  timestamp: string;
+}
+
+/**
+ * Gets the current camera-to-arm calibration as a resource.
+ */
+export function getCalibrationResource(): CalibrationResource {
+  const model = getCalibration();
+  const timestamp = new Date().toISOString();
+
+  if (!model) {
+    return { calibrated: false, timestamp };
+  }
+
+  return {
+    calibrated: true,
+    frame: {
+      width: model.frameWidth,
+      height: model.frameHeight,
+    },
+    pointCount: model.points.length,
+    rmsErrorMm: model.rmsError,
+    pixelToMm: model.homography,
+    createdAt: model.createdAt,
+    timestamp,
+  };
+}
+
+/** Workspace limits resource interface */
+export interface WorkspaceResource extends WorkspaceLimits {
+  timestamp: string;
+}
+
+/**
+ * Gets the travel limits, max depth and no-go zones enforced on every motion.
+ */
+export function getWorkspaceResource(): WorkspaceResource {
+  return {
+    ...getWorkspaceLimits(),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/** Sequence catalog resource interface */
+export interface SequencesResource {
+  sequences: {
+    id: string;
+    name: string;
+    description?: string;
+    /** Inputs accepted by run-sequence */
+    params: SequenceParam[];
+    /** Number of steps including the prefix and suffix, with default parameter values (null if a parameter has no default) */
+    stepCount: number | null;
+  }[];
+  /** Files that failed to load */
+  errors: SequenceLoadError[];
+  /** Progress of the active run, or null if no sequence is running */
+  running: SequenceRunProgress | null;
+  timestamp: string;
+}
+
+/**
+ * Gets the sequences that run-sequence accepts.
+ *
+ * @param running - Progress of the active run (null if idle)
+ */
+export function getSequencesResource(running: SequenceRunProgress | null): SequencesResource {
+  const { sequences, errors } = getSequenceLibrary();
+  return {
+    sequences: sequences.map((sequence) => {
+      let stepCount: number | null = null;
+      try {
+        stepCount = expandSequence(sequence).length;
+      } catch {
+        // Parameters without defaults are only known at run time
+      }
+      return {
+        id: sequence.id,
+        name: sequence.name,
+        description: sequence.description,
+        params: sequence.params,
+        stepCount,
+      };
+    }),
+    errors,
+    running,
     timestamp: new Date().toISOString(),
   };
 }
@@ -1,51 +1,15 @@
 /**
  * Shared state management for MCP Server.
- * Maintains arm connection status, position, and provides state accessors.
+ * Provides frame capture and log forwarding hooks set by the main process.
+ * Arm connection and position are owned by the ArmDriver.
  */
 
-export interface ArmState {
-  /** Whether the arm is connected */
-  isConnected: boolean;
-  /** Resource handle returned from connection (> 0 = valid) */
-  resourceHandle: number;
-  /** Server IP address */
-  serverIP: string;
-  /** COM port */
-  comPort: string;
-  /** Current X position in millimeters */
-  currentX: number;
-  /** Current Y position in millimeters */
-  currentY: number;
-  /** Z-axis depth for click operations */
-  zDepth: number;
-}
+import { AsyncLocalStorage } from 'async_hooks';
+import { getScreenRegion } from '../screen';
+import type { CapturedFrame, FrameCaptureOptions, FrameCaptureRequest } from '../../shared/frame';
 
-/** Default arm controller configuration */
-export const ARM_CONFIG = {
-  defaultServerIP: '192.168.5.106',
-  apiPort: '8082',
-  defaultComPort: 'COM3',
-  apiPath: '/MyWcfService/getstring',
-  deviceReadyDelay: 2000,
-  commandDelay: 300,
-  clickDelay: 250,
-  defaultZDepth: 12,
-  zUp: 0,
-} as const;
-
-/** Global arm state instance */
-let armState: ArmState = {
-  isConnected: false,
-  resourceHandle: 0,
-  serverIP: ARM_CONFIG.defaultServerIP,
-  comPort: ARM_CONFIG.defaultComPort,
-  currentX: 0,
-  currentY: 0,
-  zDepth: ARM_CONFIG.defaultZDepth,
-};
-
-/** Frame capture callback type */
-type FrameCaptureCallback = () => Promise<string | null>;
+/** Frame capture callback type (processes source instead of the live video when given) */
+type FrameCaptureCallback = (request: Omit<FrameCaptureRequest, 'id'>) => Promise<CapturedFrame | null>;
 
 /** Frame capture function (set by main process when renderer is ready) */
 let frameCaptureCallback: FrameCaptureCallback | null = null;
@@ -55,6 +19,10 @@ export interface McpLogEntry {
   type: 'request' | 'response' | 'error' | 'info';
   action: string;
   detail: string;
+  /** MCP session of the tool call that logged the entry */
+  sessionId?: string;
+  /** Full JSON arguments (requests) or result (responses and errors) */
+  data?: unknown;
 }
 
 /** MCP log callback type */
@@ -63,34 +31,8 @@ type McpLogCallback = (log: McpLogEntry) => void;
 /** MCP log function (set by main process) */
 let mcpLogCallback: McpLogCallback | null = null;
 
-/**
- * Gets the current arm state.
- */
-export function getArmState(): Readonly<ArmState> {
-  return { ...armState };
-}
-
-/**
- * Updates the arm state with partial values.
- */
-export function updateArmState(updates: Partial<ArmState>): void {
-  armState = { ...armState, ...updates };
-}
-
-/**
- * Resets the arm state to defaults.
- */
-export function resetArmState(): void {
-  armState = {
-    isConnected: false,
-    resourceHandle: 0,
-    serverIP: ARM_CONFIG.defaultServerIP,
-    comPort: ARM_CONFIG.defaultComPort,
-    currentX: 0,
-    currentY: 0,
-    zDepth: ARM_CONFIG.defaultZDepth,
-  };
-}
+/** MCP session of the tool call being handled, for log entries */
+const logSession = new AsyncLocalStorage<string | undefined>();
 
 /**
  * Sets the frame capture callback function.
@@ -101,48 +43,57 @@ export function setFrameCaptureCallback(callback: FrameCaptureCallback): void {
 }
 
 /**
- * Captures a frame from the camera.
+ * Captures a full camera frame (never flattened to the screen region).
  * Returns base64-encoded JPEG image or null if capture fails.
+ * Frames compared against each other (checkpoints, stable-screen waits) use this.
  */
 export async function captureFrame(): Promise<string | null> {
   if (!frameCaptureCallback) {
     console.warn('Frame capture callback not set');
     return null;
   }
-  return frameCaptureCallback();
+  return (await frameCaptureCallback({}))?.data ?? null;
 }
 
 /**
- * Builds the API URL for arm controller commands.
+ * Picks the screen region a returned frame is flattened through.
+ * Frames show the flattened screen whenever a region is configured,
+ * unless the camera view is requested.
  */
-export function buildArmApiUrl(params: {
-  duankou: string;
-  hco: number;
-  daima: string;
-}): string {
-  const baseUrl = `http://${armState.serverIP}:${ARM_CONFIG.apiPort}${ARM_CONFIG.apiPath}`;
-  const queryParams = new URLSearchParams({
-    duankou: params.duankou,
-    hco: params.hco.toString(),
-    daima: params.daima,
-  });
-  return `${baseUrl}?${queryParams.toString()}`;
+function resolveScreen(options?: FrameCaptureOptions) {
+  return options?.view === 'camera' ? undefined : (getScreenRegion() ?? undefined);
 }
 
 /**
- * Parses server response by removing surrounding quotes.
+ * Captures a frame from the camera, cropped, scaled and encoded as requested.
+ *
+ * @param options - View, crop, maximum dimension, quality and format
+ * @returns Encoded frame with its geometry, or null if capture fails
  */
-export function parseServerResponse(response: string): string {
-  return response.replace(/^"|"$/g, '');
+export async function captureFrameImage(options?: FrameCaptureOptions): Promise<CapturedFrame | null> {
+  if (!frameCaptureCallback) {
+    console.warn('Frame capture callback not set');
+    return null;
+  }
+  return frameCaptureCallback({ options, screen: resolveScreen(options) });
 }
 
 /**
- * Parses resource handle from server response.
+ * Crops, scales and encodes a frame captured earlier (e.g. the frame a wait ended on).
+ *
+ * @param frame - Full base64 JPEG frame from captureFrame
+ * @param options - View, crop, maximum dimension, quality and format
+ * @returns Encoded frame with its geometry, or null if processing fails
  */
-export function parseResourceHandle(response: string): number {
-  const cleanResult = parseServerResponse(response);
-  const handle = parseInt(cleanResult, 10);
-  return isNaN(handle) ? 0 : handle;
+export async function processFrame(
+  frame: string,
+  options?: FrameCaptureOptions
+): Promise<CapturedFrame | null> {
+  if (!frameCaptureCallback) {
+    console.warn('Frame capture callback not set');
+    return null;
+  }
+  return frameCaptureCallback({ options, source: frame, screen: resolveScreen(options) });
 }
 
 /**
@@ -160,12 +111,24 @@ export function setMcpLogCallback(callback: McpLogCallback): void {
   mcpLogCallback = callback;
 }
 
+/**
+ * Runs a tool call so that every log entry it sends carries its MCP session.
+ *
+ * @param sessionId - Calling MCP session ID
+ * @param fn - Tool call
+ */
+export function runInLogSession<T>(sessionId: string | undefined, fn: () => T): T {
+  return logSession.run(sessionId, fn);
+}
+
 /**
  * Sends an MCP log entry to the renderer process.
+ * Entries sent during a tool call are tagged with the calling session.
  */
 export function sendMcpLog(log: McpLogEntry): void {
+  const sessionId = log.sessionId ?? logSession.getStore();
   if (mcpLogCallback) {
-    mcpLogCallback(log);
+    mcpLogCallback(sessionId ? { ...log, sessionId } : log);
   }
   // Also log to console
   console.log(`[MCP ${log.type.toUpperCase()}] ${log.action}: ${log.detail}`);
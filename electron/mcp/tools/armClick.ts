@@ -4,14 +4,13 @@
  */
 
 import { z } from 'zod';
-import {
-  getArmState,
-  updateArmState,
-  buildArmApiUrl,
-  captureFrame,
-  delay,
-  ARM_CONFIG,
-} from '../state';
+import { ARM_CONFIG } from '../../../shared/arm';
+import { normalizeDepth } from '../../arm/driver';
+import type { ArmDriver } from '../../arm/driver';
+import type { ArmQueueStats } from '../../arm/queue';
+import type { CapturedFrame } from '../../../shared/frame';
+import { frameOptionsFieldSchema } from './captureFrame';
+import { captureResultFrame, describeStableScreen, StableScreenResult, waitForStableOptionSchema } from './waitForStableScreen';
 
 /** Input schema for arm-click tool */
 export const armClickSchema = z.object({
@@ -27,6 +26,8 @@ export const armClickSchema = z.object({
     .optional()
     .default(true)
     .describe('Whether to capture and return a frame after clicking (default: true)'),
+  frameOptions: frameOptionsFieldSchema,
+  waitForStable: waitForStableOptionSchema,
 });
 
 export type ArmClickInput = z.infer<typeof armClickSchema>;
@@ -37,6 +38,10 @@ export interface ArmClickOutput {
   message: string;
   position?: { x: number; y: number };
   depth?: number;
+  /** Command queue depth and wait time for this call */
+  queue?: ArmQueueStats;
+  /** Result of the waitForStable wait, if requested */
+  stableScreen?: StableScreenResult;
 }
 
 /**
@@ -45,9 +50,9 @@ export interface ArmClickOutput {
  */
 export async function executeArmClick(
   input: ArmClickInput,
-  httpRequest: (url: string) => Promise<string>
-): Promise<{ output: ArmClickOutput; frame: string | null }> {
-  const state = getArmState();
+  driver: ArmDriver
+): Promise<{ output: ArmClickOutput; frame: CapturedFrame | null }> {
+  const state = driver.getState();
 
   if (!state.isConnected || state.resourceHandle <= 0) {
     return {
@@ -59,43 +64,29 @@ export async function executeArmClick(
     };
   }
 
-  const zDepth = input.depth ?? ARM_CONFIG.defaultZDepth;
+  const zDepth = normalizeDepth(input.depth ?? ARM_CONFIG.defaultZDepth);
 
   try {
-    // Lower stylus
-    const downUrl = buildArmApiUrl({
-      duankou: '0',
-      hco: state.resourceHandle,
-      daima: `Z${zDepth}`,
-    });
-    await httpRequest(downUrl);
+    const { queue } = await driver.press(zDepth, ARM_CONFIG.clickDelay);
+    const { currentX, currentY } = driver.getState();
 
-    // Wait for touch
-    await delay(ARM_CONFIG.clickDelay);
-
-    // Raise stylus
-    const upUrl = buildArmApiUrl({
-      duankou: '0',
-      hco: state.resourceHandle,
-      daima: `Z${ARM_CONFIG.zUp}`,
-    });
-    await httpRequest(upUrl);
-
-    // Update state with used depth
-    updateArmState({ zDepth });
-
-    // Capture frame if requested
-    let frame: string | null = null;
-    if (input.returnFrame !== false) {
-      frame = await captureFrame();
-    }
+    // Capture frame if requested, after the screen settles if asked to
+    const { frame, stableScreen } = await captureResultFrame(
+      input.waitForStable,
+      input.returnFrame,
+      input.frameOptions
+    );
 
     return {
       output: {
         success: true,
-        message: `Clicked at position (${state.currentX}, ${state.currentY}) with depth Z${zDepth}`,
-        position: { x: state.currentX, y: state.currentY },
+        message:
+          `Clicked at position (${currentX}, ${currentY}) with depth Z${zDepth}` +
+          (stableScreen ? `; ${describeStableScreen(stableScreen)}` : ''),
+        position: { x: currentX, y: currentY },
         depth: zDepth,
+        queue,
+        stableScreen,
       },
       frame,
     };
@@ -4,14 +4,9 @@
  */
 
 import { z } from 'zod';
-import {
-  getArmState,
-  updateArmState,
-  buildArmApiUrl,
-  parseResourceHandle,
-  delay,
-  ARM_CONFIG,
-} from '../state';
+import { ARM_CONFIG } from '../../../shared/arm';
+import type { ArmDriver } from '../../arm/driver';
+import type { ArmQueueStats } from '../../arm/queue';
 
 /** Input schema for arm-connect tool */
 export const armConnectSchema = z.object({
@@ -32,17 +27,19 @@ export interface ArmConnectOutput {
   success: boolean;
   message: string;
   handle?: number;
+  /** Command queue depth and wait time for this call */
+  queue?: ArmQueueStats;
 }
 
 /**
  * Executes the arm-connect tool.
- * Sends HTTP request to arm controller to open COM port.
+ * Opens the COM port through the shared arm driver and waits for the device to be ready.
  */
 export async function executeArmConnect(
   input: ArmConnectInput,
-  httpRequest: (url: string) => Promise<string>
+  driver: ArmDriver
 ): Promise<ArmConnectOutput> {
-  const state = getArmState();
+  const state = driver.getState();
 
   if (state.isConnected) {
     return {
@@ -54,40 +51,15 @@ export async function executeArmConnect(
   const serverIP = input.serverIP || ARM_CONFIG.defaultServerIP;
   const comPort = input.comPort || ARM_CONFIG.defaultComPort;
 
-  updateArmState({ serverIP, comPort });
-
   try {
-    const url = buildArmApiUrl({
-      duankou: comPort,
-      hco: 0,
-      daima: '0',
-    });
-
-    const response = await httpRequest(url);
-    const resourceHandle = parseResourceHandle(response);
-
-    if (resourceHandle > 0) {
-      // Wait for device to be ready
-      await delay(ARM_CONFIG.deviceReadyDelay);
+    const { result: resourceHandle, queue } = await driver.connect(serverIP, comPort);
 
-      updateArmState({
-        isConnected: true,
-        resourceHandle,
-        currentX: 0,
-        currentY: 0,
-      });
-
-      return {
-        success: true,
-        message: `Connected to arm controller on ${comPort}. Handle: ${resourceHandle}`,
-        handle: resourceHandle,
-      };
-    } else {
-      return {
-        success: false,
-        message: `Failed to open port ${comPort}. Check if port is occupied or device is connected.`,
-      };
-    }
+    return {
+      success: true,
+      message: `Connected to arm controller on ${comPort}. Handle: ${resourceHandle}`,
+      handle: resourceHandle,
+      queue,
+    };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return {
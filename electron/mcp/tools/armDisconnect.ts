@@ -4,13 +4,8 @@
  */
 
 import { z } from 'zod';
-import {
-  getArmState,
-  resetArmState,
-  buildArmApiUrl,
-  delay,
-  ARM_CONFIG,
-} from '../state';
+import type { ArmDriver } from '../../arm/driver';
+import type { ArmQueueStats } from '../../arm/queue';
 
 /** Input schema for arm-disconnect tool (no parameters required) */
 export const armDisconnectSchema = z.object({});
@@ -21,6 +16,8 @@ export type ArmDisconnectInput = z.infer<typeof armDisconnectSchema>;
 export interface ArmDisconnectOutput {
   success: boolean;
   message: string;
+  /** Command queue depth and wait time for this call */
+  queue?: ArmQueueStats;
 }
 
 /**
@@ -29,45 +26,23 @@ export interface ArmDisconnectOutput {
  */
 export async function executeArmDisconnect(
   _input: ArmDisconnectInput,
-  httpRequest: (url: string) => Promise<string>
+  driver: ArmDriver
 ): Promise<ArmDisconnectOutput> {
-  const state = getArmState();
-
-  if (!state.isConnected || state.resourceHandle <= 0) {
-    resetArmState();
-    return {
-      success: true,
-      message: 'Not connected. State has been reset.',
-    };
-  }
+  const state = driver.getState();
+  const wasConnected = state.isConnected && state.resourceHandle > 0;
 
   try {
-    // Reset position to origin
-    const resetUrl = buildArmApiUrl({
-      duankou: '0',
-      hco: state.resourceHandle,
-      daima: 'X0Y0Z0',
-    });
-    await httpRequest(resetUrl);
-    await delay(ARM_CONFIG.commandDelay);
-
-    // Close port
-    const closeUrl = buildArmApiUrl({
-      duankou: '0',
-      hco: state.resourceHandle,
-      daima: '0',
-    });
-    await httpRequest(closeUrl);
-
-    resetArmState();
+    const { queue } = await driver.disconnect();
 
     return {
       success: true,
-      message: 'Disconnected from arm controller. Position reset to origin.',
+      message: wasConnected
+        ? 'Disconnected from arm controller. Position reset to origin.'
+        : 'Not connected. State has been reset.',
+      queue,
     };
   } catch (error) {
-    // Even if there's an error, reset state to allow reconnection
-    resetArmState();
+    // The driver resets state even on error, so reconnection is possible
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return {
       success: true,
@@ -0,0 +1,105 @@
+/**
+ * MCP Tool: arm-double-tap
+ * Performs two quick clicks at the current position.
+ */
+
+import { z } from 'zod';
+import { captureFrameImage } from '../state';
+import { ARM_CONFIG } from '../../../shared/arm';
+import { normalizeDepth } from '../../arm/driver';
+import type { ArmDriver } from '../../arm/driver';
+import type { ArmQueueStats } from '../../arm/queue';
+import type { CapturedFrame } from '../../../shared/frame';
+import { frameOptionsFieldSchema } from './captureFrame';
+
+/** Input schema for arm-double-tap tool */
+export const armDoubleTapSchema = z.object({
+  gap: z
+    .number()
+    .min(0)
+    .max(1000)
+    .optional()
+    .default(100)
+    .describe('Time in milliseconds between lifting after the first tap and pressing for the second (0-1000, default: 100)'),
+  depth: z
+    .number()
+    .min(1)
+    .max(15)
+    .optional()
+    .default(12)
+    .describe('Z-axis depth in millimeters (1-15, default: 12)'),
+  returnFrame: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Whether to capture and return a frame after the double tap (default: true)'),
+  frameOptions: frameOptionsFieldSchema,
+});
+
+export type ArmDoubleTapInput = z.infer<typeof armDoubleTapSchema>;
+
+/** Output type for arm-double-tap tool */
+export interface ArmDoubleTapOutput {
+  success: boolean;
+  message: string;
+  position?: { x: number; y: number };
+  depth?: number;
+  gap?: number;
+  /** Command queue depth and wait time for this call */
+  queue?: ArmQueueStats;
+}
+
+/**
+ * Executes the arm-double-tap tool.
+ * Clicks twice at the current position with the requested gap between taps.
+ */
+export async function executeArmDoubleTap(
+  input: ArmDoubleTapInput,
+  driver: ArmDriver
+): Promise<{ output: ArmDoubleTapOutput; frame: CapturedFrame | null }> {
+  const state = driver.getState();
+
+  if (!state.isConnected || state.resourceHandle <= 0) {
+    return {
+      output: {
+        success: false,
+        message: 'Not connected to arm controller. Call arm-connect first.',
+      },
+      frame: null,
+    };
+  }
+
+  const zDepth = normalizeDepth(input.depth ?? ARM_CONFIG.defaultZDepth);
+  const gap = input.gap ?? ARM_CONFIG.doubleTapGap;
+
+  try {
+    const { queue } = await driver.doubleTap(zDepth, gap);
+    const { currentX, currentY } = driver.getState();
+
+    let frame: CapturedFrame | null = null;
+    if (input.returnFrame !== false) {
+      frame = await captureFrameImage(input.frameOptions);
+    }
+
+    return {
+      output: {
+        success: true,
+        message: `Double-tapped at position (${currentX}, ${currentY}) with ${gap}ms gap and depth Z${zDepth}`,
+        position: { x: currentX, y: currentY },
+        depth: zDepth,
+        gap,
+        queue,
+      },
+      frame,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      output: {
+        success: false,
+        message: `Double tap failed: ${errorMessage}`,
+      },
+      frame: null,
+    };
+  }
+}
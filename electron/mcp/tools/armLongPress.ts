@@ -0,0 +1,105 @@
+/**
+ * MCP Tool: arm-long-press
+ * Presses and holds the stylus at the current position.
+ */
+
+import { z } from 'zod';
+import { captureFrameImage } from '../state';
+import { ARM_CONFIG } from '../../../shared/arm';
+import { normalizeDepth } from '../../arm/driver';
+import type { ArmDriver } from '../../arm/driver';
+import type { ArmQueueStats } from '../../arm/queue';
+import type { CapturedFrame } from '../../../shared/frame';
+import { frameOptionsFieldSchema } from './captureFrame';
+
+/** Input schema for arm-long-press tool */
+export const armLongPressSchema = z.object({
+  duration: z
+    .number()
+    .min(300)
+    .max(10000)
+    .optional()
+    .default(1000)
+    .describe('Hold duration in milliseconds (300-10000, default: 1000)'),
+  depth: z
+    .number()
+    .min(1)
+    .max(15)
+    .optional()
+    .default(12)
+    .describe('Z-axis depth in millimeters (1-15, default: 12)'),
+  returnFrame: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Whether to capture and return a frame after the press (default: true)'),
+  frameOptions: frameOptionsFieldSchema,
+});
+
+export type ArmLongPressInput = z.infer<typeof armLongPressSchema>;
+
+/** Output type for arm-long-press tool */
+export interface ArmLongPressOutput {
+  success: boolean;
+  message: string;
+  position?: { x: number; y: number };
+  depth?: number;
+  duration?: number;
+  /** Command queue depth and wait time for this call */
+  queue?: ArmQueueStats;
+}
+
+/**
+ * Executes the arm-long-press tool.
+ * Lowers the stylus, holds for the requested duration, then raises it.
+ */
+export async function executeArmLongPress(
+  input: ArmLongPressInput,
+  driver: ArmDriver
+): Promise<{ output: ArmLongPressOutput; frame: CapturedFrame | null }> {
+  const state = driver.getState();
+
+  if (!state.isConnected || state.resourceHandle <= 0) {
+    return {
+      output: {
+        success: false,
+        message: 'Not connected to arm controller. Call arm-connect first.',
+      },
+      frame: null,
+    };
+  }
+
+  const zDepth = normalizeDepth(input.depth ?? ARM_CONFIG.defaultZDepth);
+  const duration = input.duration ?? ARM_CONFIG.longPressDuration;
+
+  try {
+    const { queue } = await driver.press(zDepth, duration);
+    const { currentX, currentY } = driver.getState();
+
+    let frame: CapturedFrame | null = null;
+    if (input.returnFrame !== false) {
+      frame = await captureFrameImage(input.frameOptions);
+    }
+
+    return {
+      output: {
+        success: true,
+        message: `Long-pressed at position (${currentX}, ${currentY}) for ${duration}ms with depth Z${zDepth}`,
+        position: { x: currentX, y: currentY },
+        depth: zDepth,
+        duration,
+        queue,
+      },
+      frame,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      output: {
+        success: false,
+        message: `Long press failed: ${errorMessage}`,
+      },
+      frame: null,
+    };
+  }
+}
@@ -4,12 +4,11 @@
  */
 
 import { z } from 'zod';
-import {
-  getArmState,
-  updateArmState,
-  buildArmApiUrl,
-  captureFrame,
-} from '../state';
+import type { ArmDriver } from '../../arm/driver';
+import type { ArmQueueStats } from '../../arm/queue';
+import type { CapturedFrame } from '../../../shared/frame';
+import { frameOptionsFieldSchema } from './captureFrame';
+import { captureResultFrame, describeStableScreen, StableScreenResult, waitForStableOptionSchema } from './waitForStableScreen';
 
 /** Input schema for arm-move tool */
 export const armMoveSchema = z.object({
@@ -26,6 +25,8 @@ export const armMoveSchema = z.object({
     .optional()
     .default(true)
     .describe('Whether to capture and return a frame after moving (default: true)'),
+  frameOptions: frameOptionsFieldSchema,
+  waitForStable: waitForStableOptionSchema,
 });
 
 export type ArmMoveInput = z.infer<typeof armMoveSchema>;
@@ -36,6 +37,10 @@ export interface ArmMoveOutput {
   message: string;
   position?: { x: number; y: number };
   previousPosition?: { x: number; y: number };
+  /** Command queue depth and wait time for this call */
+  queue?: ArmQueueStats;
+  /** Result of the waitForStable wait, if requested */
+  stableScreen?: StableScreenResult;
 }
 
 /**
@@ -45,9 +50,9 @@ export interface ArmMoveOutput {
  */
 export async function executeArmMove(
   input: ArmMoveInput,
-  httpRequest: (url: string) => Promise<string>
-): Promise<{ output: ArmMoveOutput; frame: string | null }> {
-  const state = getArmState();
+  driver: ArmDriver
+): Promise<{ output: ArmMoveOutput; frame: CapturedFrame | null }> {
+  const state = driver.getState();
 
   if (!state.isConnected || state.resourceHandle <= 0) {
     return {
@@ -59,37 +64,32 @@ export async function executeArmMove(
     };
   }
 
-  const newX = Math.max(0, Math.round(input.x));
-  const newY = Math.max(0, Math.round(input.y));
   const previousX = state.currentX;
   const previousY = state.currentY;
 
   try {
-    const url = buildArmApiUrl({
-      duankou: '0',
-      hco: state.resourceHandle,
-      daima: `X${newX}Y${newY}`,
-    });
+    const {
+      result: { x: newX, y: newY },
+      queue,
+    } = await driver.moveTo(input.x, input.y);
 
-    await httpRequest(url);
-
-    updateArmState({
-      currentX: newX,
-      currentY: newY,
-    });
-
-    // Capture frame if requested
-    let frame: string | null = null;
-    if (input.returnFrame !== false) {
-      frame = await captureFrame();
-    }
+    // Capture frame if requested, after the screen settles if asked to
+    const { frame, stableScreen } = await captureResultFrame(
+      input.waitForStable,
+      input.returnFrame,
+      input.frameOptions
+    );
 
     return {
       output: {
         success: true,
-        message: `Moved from (${previousX}, ${previousY}) to (${newX}, ${newY})`,
+        message:
+          `Moved from (${previousX}, ${previousY}) to (${newX}, ${newY})` +
+          (stableScreen ? `; ${describeStableScreen(stableScreen)}` : ''),
         position: { x: newX, y: newY },
         previousPosition: { x: previousX, y: previousY },
+        queue,
+        stableScreen,
       },
       frame,
     };
@@ -0,0 +1,129 @@
+/**
+ * MCP Tool: arm-swipe
+ * Performs a straight-line drag from a start point to an end point.
+ */
+
+import { z } from 'zod';
+import { captureFrameImage } from '../state';
+import { ARM_CONFIG } from '../../../shared/arm';
+import { normalizeDepth } from '../../arm/driver';
+import type { ArmDriver } from '../../arm/driver';
+import type { ArmQueueStats } from '../../arm/queue';
+import type { CapturedFrame } from '../../../shared/frame';
+import { frameOptionsFieldSchema } from './captureFrame';
+
+/** Input schema for arm-swipe tool */
+export const armSwipeSchema = z.object({
+  startX: z
+    .number()
+    .min(0)
+    .describe('Start X position in millimeters (>= 0)'),
+  startY: z
+    .number()
+    .min(0)
+    .describe('Start Y position in millimeters (>= 0)'),
+  endX: z
+    .number()
+    .min(0)
+    .describe('End X position in millimeters (>= 0)'),
+  endY: z
+    .number()
+    .min(0)
+    .describe('End Y position in millimeters (>= 0)'),
+  depth: z
+    .number()
+    .min(1)
+    .max(15)
+    .optional()
+    .default(12)
+    .describe('Z-axis depth in millimeters while dragging (1-15, default: 12)'),
+  holdDelay: z
+    .number()
+    .min(0)
+    .max(5000)
+    .optional()
+    .default(50)
+    .describe('Time in milliseconds to hold at the end point before lifting (0-5000, default: 50)'),
+  returnFrame: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Whether to capture and return a frame after swiping (default: true)'),
+  frameOptions: frameOptionsFieldSchema,
+});
+
+export type ArmSwipeInput = z.infer<typeof armSwipeSchema>;
+
+/** Output type for arm-swipe tool */
+export interface ArmSwipeOutput {
+  success: boolean;
+  message: string;
+  from?: { x: number; y: number };
+  to?: { x: number; y: number };
+  depth?: number;
+  /** Command queue depth and wait time for this call */
+  queue?: ArmQueueStats;
+}
+
+/**
+ * Executes the arm-swipe tool.
+ * Moves to the start point, lowers the stylus, drags to the end point,
+ * holds for the requested time, then raises the stylus.
+ * The arm state is updated to the end position.
+ */
+export async function executeArmSwipe(
+  input: ArmSwipeInput,
+  driver: ArmDriver
+): Promise<{ output: ArmSwipeOutput; frame: CapturedFrame | null }> {
+  const state = driver.getState();
+
+  if (!state.isConnected || state.resourceHandle <= 0) {
+    return {
+      output: {
+        success: false,
+        message: 'Not connected to arm controller. Call arm-connect first.',
+      },
+      frame: null,
+    };
+  }
+
+  const zDepth = normalizeDepth(input.depth ?? ARM_CONFIG.defaultZDepth);
+
+  try {
+    const {
+      result: { from, to },
+      queue,
+    } = await driver.swipe(
+      { x: input.startX, y: input.startY },
+      { x: input.endX, y: input.endY },
+      zDepth,
+      input.holdDelay ?? ARM_CONFIG.swipeHoldDelay
+    );
+
+    let frame: CapturedFrame | null = null;
+    if (input.returnFrame !== false) {
+      frame = await captureFrameImage(input.frameOptions);
+    }
+
+    return {
+      output: {
+        success: true,
+        message: `Swiped from (${from.x}, ${from.y}) to (${to.x}, ${to.y}) with depth Z${zDepth}`,
+        from,
+        to,
+        depth: zDepth,
+        queue,
+      },
+      frame,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      output: {
+        success: false,
+        message: `Swipe failed: ${errorMessage}`,
+      },
+      frame: null,
+    };
+  }
+}
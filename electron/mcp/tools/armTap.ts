@@ -0,0 +1,114 @@
+/**
+ * MCP Tool: arm-tap
+ * Moves to a position and clicks there in a single call.
+ */
+
+import { z } from 'zod';
+import { captureFrameImage, delay } from '../state';
+import { ARM_CONFIG } from '../../../shared/arm';
+import { normalizeDepth } from '../../arm/driver';
+import type { ArmDriver } from '../../arm/driver';
+import type { ArmQueueStats } from '../../arm/queue';
+import type { CapturedFrame } from '../../../shared/frame';
+import { frameOptionsFieldSchema } from './captureFrame';
+
+/** Input schema for arm-tap tool */
+export const armTapSchema = z.object({
+  x: z
+    .number()
+    .min(0)
+    .describe('Target X position in millimeters (>= 0)'),
+  y: z
+    .number()
+    .min(0)
+    .describe('Target Y position in millimeters (>= 0)'),
+  depth: z
+    .number()
+    .min(1)
+    .max(15)
+    .optional()
+    .default(12)
+    .describe('Z-axis depth in millimeters (1-15, default: 12)'),
+  settleDelay: z
+    .number()
+    .min(0)
+    .max(10000)
+    .optional()
+    .default(300)
+    .describe('Time in milliseconds to wait after lifting before capturing the frame (0-10000, default: 300)'),
+  returnFrame: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Whether to capture and return a frame after tapping (default: true)'),
+  frameOptions: frameOptionsFieldSchema,
+});
+
+export type ArmTapInput = z.infer<typeof armTapSchema>;
+
+/** Output type for arm-tap tool */
+export interface ArmTapOutput {
+  success: boolean;
+  message: string;
+  position?: { x: number; y: number };
+  previousPosition?: { x: number; y: number };
+  depth?: number;
+  /** Command queue depth and wait time for this call */
+  queue?: ArmQueueStats;
+}
+
+/**
+ * Executes the arm-tap tool.
+ * Moves and clicks as a single queued gesture so other clients cannot move
+ * the arm in between, then waits for the screen to settle and captures a single frame.
+ */
+export async function executeArmTap(
+  input: ArmTapInput,
+  driver: ArmDriver
+): Promise<{ output: ArmTapOutput; frame: CapturedFrame | null }> {
+  const state = driver.getState();
+
+  if (!state.isConnected || state.resourceHandle <= 0) {
+    return {
+      output: {
+        success: false,
+        message: 'Not connected to arm controller. Call arm-connect first.',
+      },
+      frame: null,
+    };
+  }
+
+  const previousPosition = { x: state.currentX, y: state.currentY };
+  const zDepth = normalizeDepth(input.depth ?? ARM_CONFIG.defaultZDepth);
+
+  try {
+    const { result: position, queue } = await driver.tap(input.x, input.y, zDepth);
+
+    let frame: CapturedFrame | null = null;
+    if (input.returnFrame !== false) {
+      await delay(input.settleDelay ?? ARM_CONFIG.commandDelay);
+      frame = await captureFrameImage(input.frameOptions);
+    }
+
+    return {
+      output: {
+        success: true,
+        message: `Tapped at (${position.x}, ${position.y}) with depth Z${zDepth}`,
+        position,
+        previousPosition,
+        depth: zDepth,
+        queue,
+      },
+      frame,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      output: {
+        success: false,
+        message: `Tap failed: ${errorMessage}`,
+      },
+      frame: null,
+    };
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * MCP Tool: arm-tap-pixel
+ * Taps at a position given in pixels of a returned frame (flattened screen or camera frame).
+ */
+
+import { z } from 'zod';
+import { getCalibration } from '../../calibration';
+import { getScreenRegion } from '../../screen';
+import { pixelToMm, isInCalibratedArea, FrameSize, Point } from '../../../shared/calibration';
+import { screenToFramePixel } from '../../../shared/screen';
+import { executeArmTap } from './armTap';
+import type { ArmDriver } from '../../arm/driver';
+import type { ArmQueueStats } from '../../arm/queue';
+import type { CapturedFrame } from '../../../shared/frame';
+import { frameOptionsFieldSchema } from './captureFrame';
+
+/** Input schema for arm-tap-pixel tool */
+export const armTapPixelSchema = z.object({
+  px: z
+    .number()
+    .min(0)
+    .describe('X position in pixels of the returned frame (0 = left edge); pass that frame\'s info as "frame" if it was cropped or scaled'),
+  py: z
+    .number()
+    .min(0)
+    .describe('Y position in pixels of the returned frame (0 = top edge); pass that frame\'s info as "frame" if it was cropped or scaled'),
+  frame: z
+    .object({
+      view: z.enum(['camera', 'screen']).optional(),
+      crop: z
+        .object({
+          x: z.number().min(0),
+          y: z.number().min(0),
+          width: z.number().min(1),
+          height: z.number().min(1),
+        })
+        .optional(),
+      scale: z.number().positive().optional(),
+    })
+    .optional()
+    .describe('The "frame" object returned with the image px/py refer to; its view, crop and scale map the pixel back to the full frame (default: px/py are full-frame pixels)'),
+  view: z
+    .enum(['camera', 'screen'])
+    .optional()
+    .describe('View the pixel refers to (default: frame.view if given, else screen when a screen region is configured, otherwise camera)'),
+  frameWidth: z
+    .number()
+    .positive()
+    .optional()
+    .describe('Width of the full (uncropped, unscaled) frame the pixel refers to (default: flattened screen width, or calibrated frame width in camera view)'),
+  frameHeight: z
+    .number()
+    .positive()
+    .optional()
+    .describe('Height of the full (uncropped, unscaled) frame the pixel refers to (default: flattened screen height, or calibrated frame height in camera view)'),
+  depth: z
+    .number()
+    .min(1)
+    .max(15)
+    .optional()
+    .default(12)
+    .describe('Z-axis depth in millimeters (1-15, default: 12)'),
+  settleDelay: z
+    .number()
+    .min(0)
+    .max(10000)
+    .optional()
+    .default(300)
+    .describe('Time in milliseconds to wait after lifting before capturing the frame (0-10000, default: 300)'),
+  returnFrame: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Whether to capture and return a frame after tapping (default: true)'),
+  frameOptions: frameOptionsFieldSchema,
+});
+
+export type ArmTapPixelInput = z.infer<typeof armTapPixelSchema>;
+
+/** Output type for arm-tap-pixel tool */
+export interface ArmTapPixelOutput {
+  success: boolean;
+  message: string;
+  pixel?: { x: number; y: number };
+  /** Full-frame pixel the given pixel maps to through frame.crop and frame.scale */
+  fullFramePixel?: { x: number; y: number };
+  /** Camera frame pixel the screen pixel maps to (screen view only) */
+  cameraPixel?: { x: number; y: number };
+  /** Arm position resolved from the pixel before rounding */
+  resolvedPosition?: { x: number; y: number };
+  /** Arm position actually tapped */
+  position?: { x: number; y: number };
+  depth?: number;
+  /** Command queue depth and wait time for this call */
+  queue?: ArmQueueStats;
+}
+
+/**
+ * Executes the arm-tap-pixel tool.
+ * Maps a pixel of a cropped or scaled frame back to the full frame, maps a
+ * flattened screen pixel to the camera frame through the screen region,
+ * converts the camera pixel to arm millimetres using the active calibration,
+ * then taps there via arm-tap.
+ */
+export async function executeArmTapPixel(
+  input: ArmTapPixelInput,
+  driver: ArmDriver
+): Promise<{ output: ArmTapPixelOutput; frame: CapturedFrame | null }> {
+  const calibration = getCalibration();
+  const pixel = { x: input.px, y: input.py };
+
+  if (!calibration) {
+    return {
+      output: {
+        success: false,
+        message: 'No calibration loaded. Calibrate the camera in PhonePilot before using pixel coordinates.',
+        pixel,
+      },
+      frame: null,
+    };
+  }
+
+  if ((input.frameWidth === undefined) !== (input.frameHeight === undefined)) {
+    return {
+      output: {
+        success: false,
+        message: 'frameWidth and frameHeight must be given together.',
+        pixel,
+      },
+      frame: null,
+    };
+  }
+
+  const view = input.view ?? input.frame?.view;
+  const screen = view === 'camera' ? null : getScreenRegion();
+  if (view === 'screen' && !screen) {
+    return {
+      output: {
+        success: false,
+        message: 'No screen region configured. Set the screen corners in PhonePilot or use view "camera".',
+        pixel,
+      },
+      frame: null,
+    };
+  }
+
+  const frameSize: FrameSize | undefined =
+    input.frameWidth !== undefined && input.frameHeight !== undefined
+      ? { width: input.frameWidth, height: input.frameHeight }
+      : undefined;
+  const width = frameSize?.width ?? screen?.outputWidth ?? calibration.frameWidth;
+  const height = frameSize?.height ?? screen?.outputHeight ?? calibration.frameHeight;
+
+  // Undo the crop and scale of the returned frame
+  const crop = input.frame?.crop ?? { x: 0, y: 0 };
+  const scale = input.frame?.scale ?? 1;
+  const fullFramePixel = input.frame
+    ? {
+        x: Math.round((crop.x + input.px / scale) * 10) / 10,
+        y: Math.round((crop.y + input.py / scale) * 10) / 10,
+      }
+    : undefined;
+  const full = fullFramePixel ?? pixel;
+
+  if (full.x >= width || full.y >= height) {
+    return {
+      output: {
+        success: false,
+        message: `Pixel (${full.x}, ${full.y}) is outside the ${width}x${height} frame.`,
+        pixel,
+        fullFramePixel,
+      },
+      frame: null,
+    };
+  }
+
+  // Screen pixels map to camera pixels of the frame the region was set on
+  let cameraPixel: Point | undefined;
+  let cameraFrame = frameSize;
+  if (screen) {
+    cameraPixel = screenToFramePixel(screen, {
+      x: (full.x * screen.outputWidth) / width,
+      y: (full.y * screen.outputHeight) / height,
+    });
+    cameraPixel = { x: Math.round(cameraPixel.x * 10) / 10, y: Math.round(cameraPixel.y * 10) / 10 };
+    cameraFrame = { width: screen.frameWidth, height: screen.frameHeight };
+  }
+  const calibrationPixel = cameraPixel ?? full;
+
+  if (!isInCalibratedArea(calibration, calibrationPixel, cameraFrame)) {
+    return {
+      output: {
+        success: false,
+        message: `Pixel (${input.px}, ${input.py}) is outside the calibrated screen area. Only points within the calibration points can be mapped reliably.`,
+        pixel,
+        fullFramePixel,
+        cameraPixel,
+      },
+      frame: null,
+    };
+  }
+
+  const mm = pixelToMm(calibration, calibrationPixel, cameraFrame);
+  const resolvedPosition = {
+    x: Math.round(mm.x * 100) / 100,
+    y: Math.round(mm.y * 100) / 100,
+  };
+
+  if (mm.x < 0 || mm.y < 0) {
+    return {
+      output: {
+        success: false,
+        message: `Pixel (${input.px}, ${input.py}) maps to (${resolvedPosition.x}, ${resolvedPosition.y}) mm, which is outside the arm's travel.`,
+        pixel,
+        fullFramePixel,
+        cameraPixel,
+        resolvedPosition,
+      },
+      frame: null,
+    };
+  }
+
+  const { output, frame } = await executeArmTap(
+    {
+      x: mm.x,
+      y: mm.y,
+      depth: input.depth,
+      settleDelay: input.settleDelay,
+      returnFrame: input.returnFrame,
+      frameOptions: input.frameOptions,
+    },
+    driver
+  );
+
+  return {
+    output: {
+      success: output.success,
+      message: output.success
+        ? `Tapped pixel (${input.px}, ${input.py}) at (${output.position?.x}, ${output.position?.y}) mm with depth Z${output.depth}`
+        : output.message,
+      pixel,
+      fullFramePixel,
+      cameraPixel,
+      resolvedPosition,
+      position: output.position,
+      depth: output.depth,
+      queue: output.queue,
+    },
+    frame,
+  };
+}
@@ -1,13 +1,57 @@
 /**
  * MCP Tool: capture-frame
- * Captures the current camera frame.
+ * Captures the current camera frame, optionally cropped, scaled or re-encoded.
  */
 
 import { z } from 'zod';
-import { getArmState, captureFrame } from '../state';
+import { captureFrameImage } from '../state';
+import { DEFAULT_JPEG_QUALITY, CapturedFrame } from '../../../shared/frame';
+import type { ArmDriver } from '../../arm/driver';
+
+/** Crop, scale and encoding of a returned frame (capture-frame input, frameOptions of other tools) */
+export const frameOptionsSchema = z.object({
+  view: z
+    .enum(['camera', 'screen'])
+    .optional()
+    .describe('"screen" returns the phone screen flattened through the configured screen region, so pixels map linearly to the screen; "camera" returns the whole camera frame (default: screen when a screen region is configured, otherwise camera)'),
+  crop: z
+    .object({
+      x: z.number().min(0).describe('Left edge in full-frame pixels'),
+      y: z.number().min(0).describe('Top edge in full-frame pixels'),
+      width: z.number().min(1).describe('Width in full-frame pixels'),
+      height: z.number().min(1).describe('Height in full-frame pixels'),
+    })
+    .optional()
+    .describe('Region of the full frame (of the chosen view) to return (default: whole frame); clamped to the frame'),
+  maxDimension: z
+    .number()
+    .int()
+    .min(16)
+    .max(4096)
+    .optional()
+    .describe('Scale the (cropped) frame down so its longest side is at most this many pixels (16-4096, default: no scaling)'),
+  quality: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe(`JPEG quality (1-100, default: ${DEFAULT_JPEG_QUALITY}); ignored for PNG`),
+  format: z
+    .enum(['jpeg', 'png'])
+    .optional()
+    .describe('Image encoding (default: jpeg)'),
+});
+
+export type FrameOptionsInput = z.infer<typeof frameOptionsSchema>;
+
+/** frameOptions field of tools that return a frame */
+export const frameOptionsFieldSchema = frameOptionsSchema
+  .optional()
+  .describe('Crop, scale and encoding of the returned frame (same fields as capture-frame)');
 
 /** Input schema for capture-frame tool (no required parameters) */
-export const captureFrameSchema = z.object({});
+export const captureFrameSchema = frameOptionsSchema;
 
 export type CaptureFrameInput = z.infer<typeof captureFrameSchema>;
 
@@ -25,13 +69,14 @@ export interface CaptureFrameOutput {
  * Captures the current frame from the camera.
  */
 export async function executeCaptureFrame(
-  _input: CaptureFrameInput
-): Promise<{ output: CaptureFrameOutput; frame: string | null }> {
-  const state = getArmState();
+  input: CaptureFrameInput,
+  driver: ArmDriver
+): Promise<{ output: CaptureFrameOutput; frame: CapturedFrame | null }> {
+  const state = driver.getState();
   const timestamp = new Date().toISOString();
 
   try {
-    const frame = await captureFrame();
+    const frame = await captureFrameImage(input);
 
     if (frame) {
       return {
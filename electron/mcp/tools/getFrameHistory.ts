@@ -0,0 +1,124 @@
+/**
+ * MCP Tool: get-frame-history
+ * Returns recent frames returned by earlier tool calls, by index or time range.
+ */
+
+import { z } from 'zod';
+import { FRAME_HISTORY_CONFIG } from '../frameHistory';
+import type { FrameHistory } from '../frameHistory';
+import type { CapturedFrame } from '../../../shared/frame';
+
+/** Most frames returned by one call */
+const MAX_FRAMES_PER_CALL = 10;
+
+/** Input schema for get-frame-history tool */
+export const getFrameHistorySchema = z.object({
+  index: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .default(0)
+    .describe(`Position of the first frame to return among matching frames, 0 = most recent (at most ${FRAME_HISTORY_CONFIG.capacity} frames are kept, default: 0)`),
+  count: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_FRAMES_PER_CALL)
+    .optional()
+    .default(1)
+    .describe(`Number of frames to return, newest first (1-${MAX_FRAMES_PER_CALL}, default: 1)`),
+  since: z
+    .iso.datetime({ offset: true })
+    .optional()
+    .describe('Only frames recorded at or after this ISO 8601 time'),
+  until: z
+    .iso.datetime({ offset: true })
+    .optional()
+    .describe('Only frames recorded at or before this ISO 8601 time'),
+  includeImages: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Whether to return the images or only their metadata (default: true)'),
+});
+
+export type GetFrameHistoryInput = z.infer<typeof getFrameHistorySchema>;
+
+/** Metadata of a returned history frame */
+export interface FrameHistoryItem {
+  /** Position in the history, 0 = most recent */
+  index: number;
+  id: number;
+  timestamp: string;
+  tool: string;
+  armPosition: { x: number; y: number };
+  width: number;
+  height: number;
+  mimeType: CapturedFrame['mimeType'];
+  view: CapturedFrame['view'];
+  crop: CapturedFrame['crop'];
+  scale: number;
+}
+
+/** Output type for get-frame-history tool */
+export interface GetFrameHistoryOutput {
+  success: boolean;
+  message: string;
+  /** Frames currently kept */
+  total: number;
+  /** Returned frames, newest first (images follow in the same order) */
+  frames: FrameHistoryItem[];
+}
+
+/**
+ * Executes the get-frame-history tool.
+ * Filters the kept frames by time range, then returns count frames from index on.
+ */
+export function executeGetFrameHistory(
+  input: GetFrameHistoryInput,
+  history: FrameHistory
+): { output: GetFrameHistoryOutput; frames: CapturedFrame[] } {
+  const since = input.since ? Date.parse(input.since) : -Infinity;
+  const until = input.until ? Date.parse(input.until) : Infinity;
+  const index = input.index ?? 0;
+  const count = input.count ?? 1;
+
+  const all = history.list();
+  const selected = all
+    .map((entry, i) => ({ entry, index: i }))
+    .filter(({ entry }) => {
+      const time = Date.parse(entry.timestamp);
+      return time >= since && time <= until;
+    })
+    .slice(index, index + count);
+
+  const frames: FrameHistoryItem[] = selected.map(({ entry, index: i }) => ({
+    index: i,
+    id: entry.id,
+    timestamp: entry.timestamp,
+    tool: entry.tool,
+    armPosition: entry.armPosition,
+    width: entry.frame.width,
+    height: entry.frame.height,
+    mimeType: entry.frame.mimeType,
+    view: entry.frame.view,
+    crop: entry.frame.crop,
+    scale: entry.frame.scale,
+  }));
+
+  return {
+    output: {
+      success: frames.length > 0,
+      message:
+        frames.length > 0
+          ? `Returned ${frames.length} of ${all.length} kept frames`
+          : all.length > 0
+            ? `No kept frames match (${all.length} kept)`
+            : 'No frames kept yet. Frames returned by other tools are kept here.',
+      total: all.length,
+      frames,
+    },
+    frames: input.includeImages !== false ? selected.map(({ entry }) => entry.frame) : [],
+  };
+}
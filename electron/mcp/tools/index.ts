@@ -15,5 +15,38 @@ export type { ArmMoveInput, ArmMoveOutput } from './armMove';
 export { armClickSchema, executeArmClick } from './armClick';
 export type { ArmClickInput, ArmClickOutput } from './armClick';
 
+export { armSwipeSchema, executeArmSwipe } from './armSwipe';
+export type { ArmSwipeInput, ArmSwipeOutput } from './armSwipe';
+
+export { armTapSchema, executeArmTap } from './armTap';
+export type { ArmTapInput, ArmTapOutput } from './armTap';
+
+export { armTapPixelSchema, executeArmTapPixel } from './armTapPixel';
+export type { ArmTapPixelInput, ArmTapPixelOutput } from './armTapPixel';
+
+export { armLongPressSchema, executeArmLongPress } from './armLongPress';
+export type { ArmLongPressInput, ArmLongPressOutput } from './armLongPress';
+
+export { armDoubleTapSchema, executeArmDoubleTap } from './armDoubleTap';
+export type { ArmDoubleTapInput, ArmDoubleTapOutput } from './armDoubleTap';
+
 export { captureFrameSchema, executeCaptureFrame } from './captureFrame';
 export type { CaptureFrameInput, CaptureFrameOutput } from './captureFrame';
+
+export { runSequenceSchema, executeRunSequence } from './runSequence';
+export type { RunSequenceInput, RunSequenceOutput } from './runSequence';
+
+export {
+  waitForStableScreenSchema,
+  executeWaitForStableScreen,
+} from './waitForStableScreen';
+export type { WaitForStableScreenInput, WaitForStableScreenOutput } from './waitForStableScreen';
+
+export { getFrameHistorySchema, executeGetFrameHistory } from './getFrameHistory';
+export type { GetFrameHistoryInput, GetFrameHistoryOutput } from './getFrameHistory';
+
+export { startRecordingSchema, executeStartRecording } from './startRecording';
+export type { StartRecordingInput, StartRecordingOutput } from './startRecording';
+
+export { stopRecordingSchema, executeStopRecording } from './stopRecording';
+export type { StopRecordingInput, StopRecordingOutput } from './stopRecording';
@@ -0,0 +1,131 @@
+/**
+ * MCP Tool: run-sequence
+ * Runs an auto-operation sequence by ID and reports progress after every step.
+ */
+
+import { z } from 'zod';
+import { captureFrameImage, delay, processFrame } from '../state';
+import { ARM_CONFIG } from '../../../shared/arm';
+import { getSequenceLibrary } from '../../sequences';
+import type { SequenceRunner } from '../../sequences/runner';
+import type { SequenceRunProgress, SequenceRunSummary } from '../../../shared/sequence';
+import type { CapturedFrame } from '../../../shared/frame';
+import { frameOptionsFieldSchema } from './captureFrame';
+
+/** Input schema for run-sequence tool */
+export const runSequenceSchema = z.object({
+  id: z
+    .string()
+    .min(1)
+    .describe('Sequence ID from the phonepilot://sequences resource'),
+  params: z
+    .record(z.string(), z.string())
+    .optional()
+    .describe('Parameter values by name (see the sequence params in phonepilot://sequences). Word lists are space-separated. Omitted parameters use their defaults.'),
+  startAt: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Index of the first step to run, counted in expanded steps from 0 (default: 0). Use it to resume after a failed step.'),
+  settleDelay: z
+    .number()
+    .min(0)
+    .max(10000)
+    .optional()
+    .default(300)
+    .describe('Time in milliseconds to wait after the run ends before capturing the frame (0-10000, default: 300)'),
+  returnFrame: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Whether to capture and return a frame when the run ends (default: true)'),
+  frameOptions: frameOptionsFieldSchema,
+});
+
+export type RunSequenceInput = z.infer<typeof runSequenceSchema>;
+
+/** Output type for run-sequence tool */
+export interface RunSequenceOutput {
+  success: boolean;
+  message: string;
+  /** Completed and failed steps of the run */
+  summary?: SequenceRunSummary;
+}
+
+/**
+ * Executes the run-sequence tool.
+ * Runs the sequence in the main-process runner, forwarding each progress update,
+ * then returns a single frame showing where the run ended (for a failed
+ * checkpoint, the frame that did not match).
+ */
+export async function executeRunSequence(
+  input: RunSequenceInput,
+  runner: SequenceRunner,
+  onProgress: (progress: SequenceRunProgress) => void
+): Promise<{ output: RunSequenceOutput; frame: CapturedFrame | null }> {
+  const sequence = getSequenceLibrary().sequences.find((s) => s.id === input.id);
+
+  if (!sequence) {
+    return {
+      output: {
+        success: false,
+        message: `Sequence "${input.id}" not found. Read phonepilot://sequences for available IDs.`,
+      },
+      frame: null,
+    };
+  }
+
+  const unsubscribe = runner.onProgress((progress) => {
+    if (progress.sequenceId === sequence.id) {
+      onProgress(progress);
+    }
+  });
+
+  try {
+    const result = await runner.run(sequence, input.params, { startAt: input.startAt });
+    const failed = result.steps.find((s) => s.status === 'failed');
+
+    // A failed checkpoint already carries the offending frame; return it instead of a new capture
+    let frame: CapturedFrame | null = null;
+    if (input.returnFrame !== false) {
+      if (failed?.frame) {
+        frame = await processFrame(failed.frame, input.frameOptions);
+      } else {
+        await delay(input.settleDelay ?? ARM_CONFIG.commandDelay);
+        frame = await captureFrameImage(input.frameOptions);
+      }
+    }
+
+    const summary: SequenceRunSummary = {
+      ...result,
+      steps: result.steps.map(({ frame: _frame, ...step }) => step),
+    };
+    const message =
+      summary.status === 'completed'
+        ? `Sequence "${sequence.name}" completed (${summary.completedSteps}/${summary.totalSteps} steps)`
+        : summary.status === 'cancelled'
+          ? `Sequence "${sequence.name}" cancelled after ${summary.completedSteps}/${summary.totalSteps} steps`
+          : `Sequence "${sequence.name}" failed at step ${failed!.index + 1} "${failed!.label}": ${failed!.error}`;
+
+    return {
+      output: {
+        success: summary.status === 'completed',
+        message,
+        summary,
+      },
+      frame,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      output: {
+        success: false,
+        message: `Run failed: ${errorMessage}`,
+      },
+      frame: null,
+    };
+  } finally {
+    unsubscribe();
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * MCP Tool: start-recording
+ * Starts recording the camera stream, with arm actions and MCP calls timestamped alongside.
+ */
+
+import { z } from 'zod';
+import type { SessionRecorder } from '../../recording';
+import type { SessionRecording } from '../../../shared/recording';
+
+/** Input schema for start-recording tool (no parameters) */
+export const startRecordingSchema = z.object({});
+
+export type StartRecordingInput = z.infer<typeof startRecordingSchema>;
+
+/** Output type for start-recording tool */
+export interface StartRecordingOutput {
+  success: boolean;
+  message: string;
+  recording?: SessionRecording;
+}
+
+/**
+ * Executes the start-recording tool.
+ * Starts a recording owned by the calling session; fails if one is already running.
+ */
+export async function executeStartRecording(
+  _input: StartRecordingInput,
+  recorder: SessionRecorder,
+  sessionId?: string
+): Promise<StartRecordingOutput> {
+  try {
+    const recording = await recorder.start('mcp', sessionId);
+    return {
+      success: true,
+      message: `Recording started: ${recording.videoFile}`,
+      recording,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      success: false,
+      message: `Failed to start recording: ${errorMessage}`,
+      recording: recorder.getState() ?? undefined,
+    };
+  }
+}
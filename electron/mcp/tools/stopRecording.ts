@@ -0,0 +1,44 @@
+/**
+ * MCP Tool: stop-recording
+ * Stops the active recording and returns where the video and event files were written.
+ */
+
+import { z } from 'zod';
+import type { SessionRecorder } from '../../recording';
+import type { SessionRecordingSummary } from '../../../shared/recording';
+
+/** Input schema for stop-recording tool (no parameters) */
+export const stopRecordingSchema = z.object({});
+
+export type StopRecordingInput = z.infer<typeof stopRecordingSchema>;
+
+/** Output type for stop-recording tool */
+export interface StopRecordingOutput {
+  success: boolean;
+  message: string;
+  recording?: SessionRecordingSummary;
+}
+
+/**
+ * Executes the stop-recording tool.
+ * Stops the active recording, whichever session or the UI started it.
+ */
+export async function executeStopRecording(
+  _input: StopRecordingInput,
+  recorder: SessionRecorder
+): Promise<StopRecordingOutput> {
+  try {
+    const recording = await recorder.stop();
+    return {
+      success: true,
+      message: `Recording stopped after ${Math.round(recording.durationMs / 1000)}s (${recording.bytes} bytes, ${recording.events} events): ${recording.videoFile}`,
+      recording,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      success: false,
+      message: `Failed to stop recording: ${errorMessage}`,
+    };
+  }
+}
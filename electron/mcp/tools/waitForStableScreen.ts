@@ -0,0 +1,145 @@
+/**
+ * MCP Tool: wait-for-stable-screen
+ * Waits until the camera frame stops changing and returns the stable frame.
+ */
+
+import { z } from 'zod';
+import { captureFrame, captureFrameImage, processFrame } from '../state';
+import { VISION_CONFIG, FrameWaitError, waitForStableFrame } from '../../vision';
+import type { CapturedFrame } from '../../../shared/frame';
+import { frameOptionsFieldSchema, FrameOptionsInput } from './captureFrame';
+
+/** Wait settings (the waitForStable option of arm tools) */
+const stableScreenOptionsSchema = z.object({
+  threshold: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe(`Largest mean pixel difference between consecutive frames still counted as unchanged (0-1, default: ${VISION_CONFIG.defaultStableThreshold})`),
+  settle: z
+    .number()
+    .min(0)
+    .max(10000)
+    .optional()
+    .describe(`Time in milliseconds the screen must stay unchanged (0-10000, default: ${VISION_CONFIG.defaultSettle})`),
+  timeout: z
+    .number()
+    .min(100)
+    .max(60000)
+    .optional()
+    .describe(`Maximum time to wait in milliseconds (100-60000, default: ${VISION_CONFIG.defaultTimeout})`),
+});
+
+type StableScreenOptions = z.infer<typeof stableScreenOptionsSchema>;
+
+/** Input schema for wait-for-stable-screen tool */
+export const waitForStableScreenSchema = stableScreenOptionsSchema.extend({
+  frameOptions: frameOptionsFieldSchema,
+});
+
+export type WaitForStableScreenInput = z.infer<typeof waitForStableScreenSchema>;
+
+/** waitForStable option of arm tools: true for defaults, or custom wait settings */
+export const waitForStableOptionSchema = z
+  .union([z.boolean(), stableScreenOptionsSchema])
+  .optional()
+  .describe('Wait until the screen stops changing before capturing the returned frame: true for defaults, or { threshold, settle, timeout } (default: false)');
+
+/** How a wait for a stable screen ended */
+export interface StableScreenResult {
+  /** False if the timeout expired before the screen settled */
+  stable: boolean;
+  /** Time spent waiting (ms) */
+  elapsedMs: number;
+  /** Difference of the last comparison (0-1), when the screen settled */
+  difference?: number;
+  /** Reason the wait failed */
+  error?: string;
+}
+
+/** Output type for wait-for-stable-screen tool */
+export interface WaitForStableScreenOutput extends Partial<StableScreenResult> {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * Polls the camera until consecutive frames stay within the threshold for the settle time.
+ * A timeout is reported in the result rather than thrown, with the last frame captured.
+ *
+ * @param options - Difference threshold, settle time and timeout
+ * @returns How the wait ended and the stable (or last) full frame
+ */
+export async function waitForStableScreen(
+  options: StableScreenOptions = {}
+): Promise<{ result: StableScreenResult; frame: string | null }> {
+  const startedAt = Date.now();
+  try {
+    const { frame, elapsedMs, difference } = await waitForStableFrame(captureFrame, options);
+    return { result: { stable: true, elapsedMs, difference }, frame };
+  } catch (error) {
+    return {
+      result: {
+        stable: false,
+        elapsedMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      frame: error instanceof FrameWaitError ? error.frame : null,
+    };
+  }
+}
+
+/**
+ * Captures the frame returned by an arm tool, waiting for a stable screen first if requested.
+ *
+ * @param waitForStable - The tool's waitForStable option
+ * @param returnFrame - Whether the tool returns a frame
+ * @param frameOptions - Crop, scale and encoding of the returned frame
+ * @returns The frame (null if not requested) and the wait result (undefined if no wait was requested)
+ */
+export async function captureResultFrame(
+  waitForStable: z.infer<typeof waitForStableOptionSchema>,
+  returnFrame: boolean | undefined,
+  frameOptions?: FrameOptionsInput
+): Promise<{ frame: CapturedFrame | null; stableScreen?: StableScreenResult }> {
+  if (waitForStable) {
+    const { result, frame } = await waitForStableScreen(waitForStable === true ? {} : waitForStable);
+    return {
+      frame: returnFrame !== false && frame ? await processFrame(frame, frameOptions) : null,
+      stableScreen: result,
+    };
+  }
+  return { frame: returnFrame !== false ? await captureFrameImage(frameOptions) : null };
+}
+
+/**
+ * Describes a wait result for tool messages, e.g. "screen stable after 850ms".
+ */
+export function describeStableScreen(result: StableScreenResult): string {
+  return result.stable
+    ? `screen stable after ${result.elapsedMs}ms`
+    : `screen not stable: ${result.error}`;
+}
+
+/**
+ * Executes the wait-for-stable-screen tool.
+ * Samples frames through the normal capture path until the screen settles,
+ * then returns the stable frame and how long it took.
+ */
+export async function executeWaitForStableScreen(
+  input: WaitForStableScreenInput
+): Promise<{ output: WaitForStableScreenOutput; frame: CapturedFrame | null }> {
+  const { frameOptions, ...options } = input;
+  const { result, frame } = await waitForStableScreen(options);
+  return {
+    output: {
+      success: result.stable,
+      message: result.stable
+        ? `Screen stable after ${result.elapsedMs}ms (difference ${result.difference!.toFixed(3)})`
+        : `Wait failed: ${result.error}`,
+      ...result,
+    },
+    frame: frame ? await processFrame(frame, frameOptions) : null,
+  };
+}
@@ -1,4 +1,33 @@
 import { contextBridge, ipcRenderer } from 'electron';
+import type {
+  CalibrationModel,
+  CalibrationPoint,
+  FrameSize,
+  Point,
+} from '../shared/calibration';
+import type { ScreenRegion } from '../shared/screen';
+import type { ArmAction, ArmState, ArmLease } from '../shared/arm';
+import type { WorkspaceLimits } from '../shared/workspace';
+import type { CapturedFrame, FrameCaptureRequest } from '../shared/frame';
+import type {
+  RecordingControlRequest,
+  SessionRecording,
+  SessionRecordingSummary,
+} from '../shared/recording';
+import type {
+  SequenceFile,
+  SequenceLibrary,
+  SequenceParamValues,
+  SequenceRunOptions,
+  SequenceRunProgress,
+  SequenceRunSummary,
+} from '../shared/sequence';
+
+/** 2D arm position in millimeters */
+interface ArmPosition {
+  x: number;
+  y: number;
+}
 
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
@@ -23,12 +52,51 @@ contextBridge.exposeInMainWorld('electronAPI', {
     }
   },
 
-  // HTTP request (bypasses CORS by going through main process)
-  httpRequest: (url: string) => ipcRenderer.invoke('http-request', url),
+  // Arm: Commands go through the shared arm driver in the main process
+  getArmState: () => ipcRenderer.invoke('arm-get-state'),
+  armConnect: (serverIP: string, comPort: string) =>
+    ipcRenderer.invoke('arm-connect', serverIP, comPort),
+  armDisconnect: () => ipcRenderer.invoke('arm-disconnect'),
+  armMoveTo: (x: number, y: number) => ipcRenderer.invoke('arm-move', x, y),
+  armSetZ: (z: number) => ipcRenderer.invoke('arm-set-z', z),
+  armPress: (depth: number, holdMs?: number) => ipcRenderer.invoke('arm-press', depth, holdMs),
+  armSwipe: (from: ArmPosition, to: ArmPosition, depth: number, holdMs?: number) =>
+    ipcRenderer.invoke('arm-swipe', from, to, depth, holdMs),
+  armDoubleTap: (depth: number, gapMs?: number) =>
+    ipcRenderer.invoke('arm-double-tap', depth, gapMs),
+
+  // Arm: Listen for state changes (UI and MCP activity)
+  onArmStateChanged: (callback: (state: ArmState) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, state: ArmState) => callback(state);
+    ipcRenderer.on('arm-state-changed', handler);
+    return () => {
+      ipcRenderer.removeListener('arm-state-changed', handler);
+    };
+  },
+
+  // Arm: Listen for completed gestures (used by record mode)
+  onArmAction: (callback: (action: ArmAction) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, action: ArmAction) => callback(action);
+    ipcRenderer.on('arm-action', handler);
+    return () => {
+      ipcRenderer.removeListener('arm-action', handler);
+    };
+  },
+
+  // Arm lease: Which MCP session holds the arm, and operator release
+  getArmLease: () => ipcRenderer.invoke('arm-lease-get'),
+  releaseArmLease: () => ipcRenderer.invoke('arm-lease-release'),
+  onArmLeaseChanged: (callback: (lease: ArmLease | null) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, lease: ArmLease | null) => callback(lease);
+    ipcRenderer.on('arm-lease-changed', handler);
+    return () => {
+      ipcRenderer.removeListener('arm-lease-changed', handler);
+    };
+  },
 
   // MCP Frame capture: Listen for capture requests from main process
-  onCaptureFrameRequest: (callback: () => void) => {
-    const handler = () => callback();
+  onCaptureFrameRequest: (callback: (request: FrameCaptureRequest) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, request: FrameCaptureRequest) => callback(request);
     ipcRenderer.on('mcp-capture-frame-request', handler);
     // Return unsubscribe function
     return () => {
@@ -37,8 +105,41 @@ contextBridge.exposeInMainWorld('electronAPI', {
   },
 
   // MCP Frame capture: Send captured frame back to main process
-  sendCaptureFrameResponse: (frame: string | null) => {
-    ipcRenderer.send('mcp-capture-frame-response', frame);
+  sendCaptureFrameResponse: (id: number, frame: CapturedFrame | null) => {
+    ipcRenderer.send('mcp-capture-frame-response', id, frame);
+  },
+
+  // Recording: Start, stop and follow the session recording
+  getRecording: () => ipcRenderer.invoke('recording-get'),
+  startRecording: () => ipcRenderer.invoke('recording-start'),
+  stopRecording: () => ipcRenderer.invoke('recording-stop'),
+  onRecordingChanged: (callback: (recording: SessionRecording | null) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, recording: SessionRecording | null) =>
+      callback(recording);
+    ipcRenderer.on('recording-changed', handler);
+    return () => {
+      ipcRenderer.removeListener('recording-changed', handler);
+    };
+  },
+
+  // Recording: Listen for recorder start/stop requests from main process
+  onRecordingControlRequest: (callback: (request: RecordingControlRequest) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, request: RecordingControlRequest) =>
+      callback(request);
+    ipcRenderer.on('recording-control-request', handler);
+    return () => {
+      ipcRenderer.removeListener('recording-control-request', handler);
+    };
+  },
+
+  // Recording: Report the outcome of a start/stop request (error message or null)
+  sendRecordingControlResponse: (id: number, error: string | null) => {
+    ipcRenderer.send('recording-control-response', id, error);
+  },
+
+  // Recording: Send a recorded video chunk to main process
+  sendRecordingChunk: (recordingId: string, data: Uint8Array) => {
+    ipcRenderer.send('recording-chunk', recordingId, data);
   },
 
   // MCP Server status notification
@@ -46,23 +147,90 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.on('mcp-server-ready', (_event, info) => callback(info));
   },
 
+  // MCP Log: Open the audit log directory in the system file manager
+  openAuditFolder: () => ipcRenderer.invoke('audit-open-folder'),
+
   // MCP Log: Receive log entries from main process
-  onMcpLog: (
-    callback: (log: {
-      type: 'request' | 'response' | 'error' | 'info';
-      action: string;
-      detail: string;
-    }) => void
-  ) => {
-    const handler = (
-      _event: Electron.IpcRendererEvent,
-      log: { type: 'request' | 'response' | 'error' | 'info'; action: string; detail: string }
-    ) => callback(log);
+  onMcpLog: (callback: (log: McpLogPayload) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, log: McpLogPayload) => callback(log);
     ipcRenderer.on('mcp-log', handler);
     return () => {
       ipcRenderer.removeListener('mcp-log', handler);
     };
   },
+
+  // Calibration: Read, save and clear the camera-to-arm calibration model
+  getCalibration: () => ipcRenderer.invoke('calibration-get'),
+  saveCalibration: (points: CalibrationPoint[], frame: FrameSize) =>
+    ipcRenderer.invoke('calibration-save', points, frame),
+  clearCalibration: () => ipcRenderer.invoke('calibration-clear'),
+
+  // Calibration: Listen for calibration changes from main process
+  onCalibrationChanged: (callback: (model: CalibrationModel | null) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, model: CalibrationModel | null) =>
+      callback(model);
+    ipcRenderer.on('calibration-changed', handler);
+    return () => {
+      ipcRenderer.removeListener('calibration-changed', handler);
+    };
+  },
+
+  // Screen region: Read, save and clear the phone screen corners in the camera frame
+  getScreenRegion: () => ipcRenderer.invoke('screen-region-get'),
+  saveScreenRegion: (corners: Point[], frame: FrameSize) =>
+    ipcRenderer.invoke('screen-region-save', corners, frame),
+  clearScreenRegion: () => ipcRenderer.invoke('screen-region-clear'),
+
+  // Screen region: Listen for screen region changes from main process
+  onScreenRegionChanged: (callback: (region: ScreenRegion | null) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, region: ScreenRegion | null) =>
+      callback(region);
+    ipcRenderer.on('screen-region-changed', handler);
+    return () => {
+      ipcRenderer.removeListener('screen-region-changed', handler);
+    };
+  },
+
+  // Workspace: Travel limits, max depth and no-go zones enforced by the arm driver
+  getWorkspaceLimits: () => ipcRenderer.invoke('workspace-get'),
+  saveWorkspaceLimits: (limits: WorkspaceLimits) => ipcRenderer.invoke('workspace-save', limits),
+  onWorkspaceChanged: (callback: (limits: WorkspaceLimits) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, limits: WorkspaceLimits) => callback(limits);
+    ipcRenderer.on('workspace-changed', handler);
+    return () => {
+      ipcRenderer.removeListener('workspace-changed', handler);
+    };
+  },
+
+  // Sequences: Auto-operation sequences loaded from the user data directory
+  getSequences: () => ipcRenderer.invoke('sequences-list'),
+  saveSequence: (sequence: SequenceFile) => ipcRenderer.invoke('sequences-save', sequence),
+  captureReferenceFrame: () => ipcRenderer.invoke('sequences-capture-reference'),
+  openSequencesFolder: () => ipcRenderer.invoke('sequences-open-folder'),
+  onSequencesChanged: (callback: (library: SequenceLibrary) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, library: SequenceLibrary) => callback(library);
+    ipcRenderer.on('sequences-changed', handler);
+    return () => {
+      ipcRenderer.removeListener('sequences-changed', handler);
+    };
+  },
+
+  // Sequence runs: Executed by the main-process runner (shared with MCP run-sequence)
+  runSequence: (id: string, values?: SequenceParamValues, options?: SequenceRunOptions) =>
+    ipcRenderer.invoke('sequence-run', id, values, options),
+  cancelSequence: () => ipcRenderer.invoke('sequence-cancel'),
+  pauseSequence: () => ipcRenderer.invoke('sequence-pause'),
+  resumeSequence: () => ipcRenderer.invoke('sequence-resume'),
+  stepSequence: () => ipcRenderer.invoke('sequence-step'),
+  setSequenceBreakpoints: (indices: number[]) => ipcRenderer.invoke('sequence-set-breakpoints', indices),
+  getSequenceRun: () => ipcRenderer.invoke('sequence-run-get'),
+  onSequenceRunProgress: (callback: (progress: SequenceRunProgress) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, progress: SequenceRunProgress) => callback(progress);
+    ipcRenderer.on('sequence-run-progress', handler);
+    return () => {
+      ipcRenderer.removeListener('sequence-run-progress', handler);
+    };
+  },
 });
 
 // MCP Log entry type
@@ -70,6 +238,10 @@ interface McpLogPayload {
   type: 'request' | 'response' | 'error' | 'info';
   action: string;
   detail: string;
+  /** MCP session of the tool call that logged the entry */
+  sessionId?: string;
+  /** Full JSON arguments (requests) or result (responses and errors) */
+  data?: unknown;
 }
 
 // Type definitions for the exposed API
@@ -80,13 +252,74 @@ declare global {
       getPlatform: () => Promise<string>;
       onMainProcessMessage: (callback: (message: string) => void) => void;
       sendMessage: (channel: string, data: unknown) => void;
-      httpRequest: (url: string) => Promise<{ status: number; data: string }>;
+      // Arm driver
+      getArmState: () => Promise<ArmState>;
+      armConnect: (serverIP: string, comPort: string) => Promise<number>;
+      armDisconnect: () => Promise<void>;
+      armMoveTo: (x: number, y: number) => Promise<ArmPosition>;
+      armSetZ: (z: number) => Promise<void>;
+      armPress: (depth: number, holdMs?: number) => Promise<void>;
+      armSwipe: (
+        from: ArmPosition,
+        to: ArmPosition,
+        depth: number,
+        holdMs?: number
+      ) => Promise<{ from: ArmPosition; to: ArmPosition }>;
+      armDoubleTap: (depth: number, gapMs?: number) => Promise<void>;
+      onArmStateChanged: (callback: (state: ArmState) => void) => () => void;
+      onArmAction: (callback: (action: ArmAction) => void) => () => void;
+      // Arm lease
+      getArmLease: () => Promise<ArmLease | null>;
+      releaseArmLease: () => Promise<void>;
+      onArmLeaseChanged: (callback: (lease: ArmLease | null) => void) => () => void;
       // MCP Frame capture
-      onCaptureFrameRequest: (callback: () => void) => () => void;
-      sendCaptureFrameResponse: (frame: string | null) => void;
+      onCaptureFrameRequest: (callback: (request: FrameCaptureRequest) => void) => () => void;
+      sendCaptureFrameResponse: (id: number, frame: CapturedFrame | null) => void;
       onMcpServerReady: (callback: (info: { port: number }) => void) => void;
+      // Recording
+      getRecording: () => Promise<SessionRecording | null>;
+      startRecording: () => Promise<SessionRecording>;
+      stopRecording: () => Promise<SessionRecordingSummary>;
+      onRecordingChanged: (callback: (recording: SessionRecording | null) => void) => () => void;
+      onRecordingControlRequest: (callback: (request: RecordingControlRequest) => void) => () => void;
+      sendRecordingControlResponse: (id: number, error: string | null) => void;
+      sendRecordingChunk: (recordingId: string, data: Uint8Array) => void;
       // MCP Logs
       onMcpLog: (callback: (log: McpLogPayload) => void) => () => void;
+      openAuditFolder: () => Promise<void>;
+      // Calibration
+      getCalibration: () => Promise<CalibrationModel | null>;
+      saveCalibration: (points: CalibrationPoint[], frame: FrameSize) => Promise<CalibrationModel>;
+      clearCalibration: () => Promise<void>;
+      onCalibrationChanged: (callback: (model: CalibrationModel | null) => void) => () => void;
+      // Screen region
+      getScreenRegion: () => Promise<ScreenRegion | null>;
+      saveScreenRegion: (corners: Point[], frame: FrameSize) => Promise<ScreenRegion>;
+      clearScreenRegion: () => Promise<void>;
+      onScreenRegionChanged: (callback: (region: ScreenRegion | null) => void) => () => void;
+      // Workspace
+      getWorkspaceLimits: () => Promise<WorkspaceLimits>;
+      saveWorkspaceLimits: (limits: WorkspaceLimits) => Promise<WorkspaceLimits>;
+      onWorkspaceChanged: (callback: (limits: WorkspaceLimits) => void) => () => void;
+      // Sequences
+      getSequences: () => Promise<SequenceLibrary>;
+      saveSequence: (sequence: SequenceFile) => Promise<SequenceLibrary>;
+      captureReferenceFrame: () => Promise<string>;
+      openSequencesFolder: () => Promise<void>;
+      onSequencesChanged: (callback: (library: SequenceLibrary) => void) => () => void;
+      // Sequence runs
+      runSequence: (
+        id: string,
+        values?: SequenceParamValues,
+        options?: SequenceRunOptions
+      ) => Promise<SequenceRunSummary>;
+      cancelSequence: () => Promise<boolean>;
+      pauseSequence: () => Promise<boolean>;
+      resumeSequence: () => Promise<boolean>;
+      stepSequence: () => Promise<boolean>;
+      setSequenceBreakpoints: (indices: number[]) => Promise<void>;
+      getSequenceRun: () => Promise<SequenceRunProgress | null>;
+      onSequenceRunProgress: (callback: (progress: SequenceRunProgress) => void) => () => void;
     };
   }
 }
@@ -0,0 +1,269 @@
+/**
+ * Session video recording for the main process.
+ * The renderer records the camera stream and sends the chunks here; this
+ * module writes them to the recordings directory in the user data directory,
+ * next to a sidecar JSONL file of timestamped arm actions and MCP log entries.
+ * Only one recording runs at a time, whether started from the UI or over MCP.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { getUserDataPath } from './storage';
+import type { ArmAction } from '../shared/arm';
+import type {
+  RecordingControlRequest,
+  RecordingEvent,
+  RecordingLogEntry,
+  RecordingSource,
+  SessionRecording,
+  SessionRecordingSummary,
+} from '../shared/recording';
+
+/** Recordings directory in the user data directory */
+const RECORDINGS_DIR = 'recordings';
+
+/**
+ * Starts or stops the recorder in the renderer.
+ * Resolves once the recorder has started, or once every chunk has been sent after stopping.
+ */
+export type RecorderControl = (request: Omit<RecordingControlRequest, 'id'>) => Promise<void>;
+
+/** Recording change listener (null = not recording) */
+export type RecordingListener = (recording: SessionRecording | null) => void;
+
+/** Omit applied to each member of a union */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/** Open files of the active recording */
+interface ActiveRecording {
+  state: SessionRecording;
+  video: fs.FileHandle;
+  events: fs.FileHandle;
+  bytes: number;
+  eventCount: number;
+  /** Pending writes, chained so chunks and events stay in order */
+  writes: Promise<void>;
+}
+
+/**
+ * Builds a recording ID from the start time, e.g. "session-20260314-153012".
+ */
+function createRecordingId(date: Date): string {
+  const stamp = date.toISOString().replace(/\D/g, '').slice(0, 14);
+  return `session-${stamp.slice(0, 8)}-${stamp.slice(8)}`;
+}
+
+/**
+ * Records the camera stream of a session together with its arm actions and MCP calls.
+ */
+export class SessionRecorder {
+  private control: RecorderControl;
+  private active: ActiveRecording | null = null;
+  /** True while a start or stop is in progress */
+  private busy = false;
+  private listeners: Set<RecordingListener> = new Set();
+
+  constructor(control: RecorderControl) {
+    this.control = control;
+  }
+
+  /**
+   * Gets the active recording, or null if not recording.
+   */
+  getState(): SessionRecording | null {
+    return this.active ? { ...this.active.state } : null;
+  }
+
+  /**
+   * Gets the recordings directory.
+   */
+  getRecordingsPath(): string {
+    return getUserDataPath(RECORDINGS_DIR);
+  }
+
+  /**
+   * Subscribes to recording changes.
+   *
+   * @param listener - Called with the recording after it starts, and with null after it stops
+   * @returns Unsubscribe function
+   */
+  onChange(listener: RecordingListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Starts recording the camera stream.
+   *
+   * @param source - Who starts the recording
+   * @param sessionId - MCP session that starts it (MCP recordings only)
+   * @returns The started recording
+   * @throws Error if a recording is already running or the renderer cannot record
+   */
+  async start(source: RecordingSource, sessionId?: string): Promise<SessionRecording> {
+    if (this.active || this.busy) {
+      throw new Error('A recording is already running. Stop it first.');
+    }
+
+    this.busy = true;
+    const id = createRecordingId(new Date());
+    const dir = this.getRecordingsPath();
+    const videoFile = path.join(dir, `${id}.webm`);
+    const eventsFile = path.join(dir, `${id}.events.jsonl`);
+    let video: fs.FileHandle | null = null;
+    let events: fs.FileHandle | null = null;
+
+    try {
+      await fs.mkdir(dir, { recursive: true });
+      video = await fs.open(videoFile, 'w');
+      events = await fs.open(eventsFile, 'w');
+      await this.control({ action: 'start', recordingId: id });
+    } catch (error) {
+      await video?.close();
+      await events?.close();
+      await fs.rm(videoFile, { force: true });
+      await fs.rm(eventsFile, { force: true });
+      this.busy = false;
+      throw error;
+    }
+
+    this.active = {
+      state: { id, source, sessionId, startedAt: Date.now(), videoFile, eventsFile },
+      video,
+      events,
+      bytes: 0,
+      eventCount: 0,
+      writes: Promise.resolve(),
+    };
+    this.busy = false;
+    this.writeEvent({ type: 'start', source, sessionId });
+    this.notify();
+    return this.getState()!;
+  }
+
+  /**
+   * Stops the active recording and closes its files.
+   * The files are closed even if the renderer fails to stop cleanly.
+   *
+   * @returns Summary of the finished recording
+   * @throws Error if no recording is running
+   */
+  async stop(): Promise<SessionRecordingSummary> {
+    const active = this.active;
+    if (!active || this.busy) {
+      throw new Error('No recording is running.');
+    }
+
+    this.busy = true;
+    try {
+      await this.control({ action: 'stop', recordingId: active.state.id });
+    } catch (error) {
+      console.warn('Recorder did not stop cleanly:', error);
+    }
+
+    const stoppedAt = Date.now();
+    this.writeEvent({ type: 'stop' });
+    this.active = null;
+    await this.close(active);
+    this.busy = false;
+    this.notify();
+
+    return {
+      ...active.state,
+      stoppedAt,
+      durationMs: stoppedAt - active.state.startedAt,
+      bytes: active.bytes,
+      events: active.eventCount,
+    };
+  }
+
+  /**
+   * Closes the files of the active recording without waiting for the renderer.
+   * Used when the app quits mid-recording; chunks received so far are kept.
+   */
+  abort(): void {
+    const active = this.active;
+    if (!active) return;
+    this.writeEvent({ type: 'stop' });
+    this.active = null;
+    void this.close(active);
+  }
+
+  /**
+   * Appends a video chunk sent by the renderer.
+   * Chunks of a recording that is no longer active are dropped.
+   *
+   * @param recordingId - Recording the chunk belongs to
+   * @param data - Encoded video data
+   */
+  appendChunk(recordingId: string, data: Uint8Array): void {
+    const active = this.active;
+    if (!active || active.state.id !== recordingId) return;
+    active.bytes += data.byteLength;
+    this.enqueue(active, async () => {
+      await active.video.write(data);
+    });
+  }
+
+  /**
+   * Timestamps a completed arm gesture in the sidecar file.
+   */
+  recordArmAction(action: ArmAction): void {
+    this.writeEvent({ type: 'arm-action', action }, action.startedAt);
+  }
+
+  /**
+   * Timestamps an MCP log entry in the sidecar file.
+   */
+  recordMcpLog(log: RecordingLogEntry): void {
+    this.writeEvent({ type: 'mcp-log', log });
+  }
+
+  /**
+   * Appends an event line to the sidecar file of the active recording.
+   *
+   * @param event - Event without its timestamps
+   * @param at - When the event happened (ms since epoch, default: now)
+   */
+  private writeEvent(event: DistributiveOmit<RecordingEvent, 't' | 'time'>, at: number = Date.now()): void {
+    const active = this.active;
+    if (!active) return;
+    const line: RecordingEvent = {
+      t: at - active.state.startedAt,
+      time: new Date(at).toISOString(),
+      ...event,
+    };
+    active.eventCount++;
+    this.enqueue(active, async () => {
+      await active.events.write(`${JSON.stringify(line)}\n`);
+    });
+  }
+
+  /**
+   * Chains a write after the pending ones; failures are logged and do not stop later writes.
+   */
+  private enqueue(active: ActiveRecording, write: () => Promise<void>): void {
+    active.writes = active.writes.then(write).catch((error) => {
+      console.warn(`Recording ${active.state.id} write failed:`, error);
+    });
+  }
+
+  /**
+   * Waits for pending writes and closes the files.
+   */
+  private async close(active: ActiveRecording): Promise<void> {
+    await active.writes;
+    await active.video.close();
+    await active.events.close();
+  }
+
+  /**
+   * Notifies listeners of the current recording.
+   */
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Screen region store for the main process.
+ * Loads, validates and persists the four corners of the phone screen in the
+ * camera frame, and keeps the active region in memory for frame capture.
+ */
+
+import { z } from 'zod';
+import { readJsonFile, writeJsonFile, deleteFile } from './storage';
+import { createScreenRegion, ScreenRegion } from '../shared/screen';
+import type { FrameSize, Point } from '../shared/calibration';
+
+/** Screen region file name in the user data directory */
+const SCREEN_REGION_FILE = 'screen-region.json';
+
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+
+const matrixSchema = z
+  .array(z.number())
+  .length(9)
+  .transform((m) => m as ScreenRegion['screenToFrame']);
+
+/** Schema used to validate screen region files loaded from disk */
+const screenRegionSchema = z.object({
+  version: z.literal(1),
+  frameWidth: z.number().positive(),
+  frameHeight: z.number().positive(),
+  corners: z.tuple([pointSchema, pointSchema, pointSchema, pointSchema]),
+  outputWidth: z.number().int().positive(),
+  outputHeight: z.number().int().positive(),
+  screenToFrame: matrixSchema,
+  frameToScreen: matrixSchema,
+  createdAt: z.string(),
+});
+
+/** Active screen region (null when not configured) */
+let screenRegion: ScreenRegion | null = null;
+
+/** Screen region change callback type */
+type ScreenRegionChangeCallback = (region: ScreenRegion | null) => void;
+
+/** Screen region change listener (set by main process) */
+let changeCallback: ScreenRegionChangeCallback | null = null;
+
+/**
+ * Gets the active screen region.
+ *
+ * @returns Screen region, or null if none is configured
+ */
+export function getScreenRegion(): ScreenRegion | null {
+  return screenRegion;
+}
+
+/**
+ * Sets the callback invoked whenever the screen region changes.
+ * Called by main process to forward changes to the renderer.
+ *
+ * @param callback - Change listener
+ */
+export function setScreenRegionChangeCallback(callback: ScreenRegionChangeCallback): void {
+  changeCallback = callback;
+}
+
+/**
+ * Loads the screen region from disk.
+ * An invalid file is ignored (with a warning) so the app still starts.
+ *
+ * @returns Loaded region, or null if none is stored
+ */
+export async function loadScreenRegion(): Promise<ScreenRegion | null> {
+  try {
+    const data = await readJsonFile(SCREEN_REGION_FILE);
+    screenRegion = data === null ? null : screenRegionSchema.parse(data);
+  } catch (error) {
+    console.warn('Ignoring invalid screen region file:', error);
+    screenRegion = null;
+  }
+  return screenRegion;
+}
+
+/**
+ * Creates a screen region from four corner points and persists it.
+ *
+ * @param corners - Screen corners in frame pixels, in any order
+ * @param frame - Size of the frame the corners refer to
+ * @returns Saved screen region
+ * @throws Error if the corners do not outline a usable quad
+ */
+export async function saveScreenRegion(corners: Point[], frame: FrameSize): Promise<ScreenRegion> {
+  const region = createScreenRegion(corners, frame);
+  await writeJsonFile(SCREEN_REGION_FILE, region);
+  screenRegion = region;
+  changeCallback?.(region);
+  return region;
+}
+
+/**
+ * Removes the stored screen region.
+ */
+export async function clearScreenRegion(): Promise<void> {
+  await deleteFile(SCREEN_REGION_FILE);
+  screenRegion = null;
+  changeCallback?.(null);
+}
@@ -0,0 +1,131 @@
+/**
+ * Built-in auto-operation sequences.
+ * Written to the sequences directory on first run; after that the files on disk
+ * are the source of truth and can be edited without rebuilding.
+ */
+
+import { SEQUENCE_FORMAT_VERSION, SequenceDirectoryFile } from '../../shared/sequence';
+
+/** Default sequence files keyed by file name */
+export const DEFAULT_SEQUENCE_FILES: Record<string, SequenceDirectoryFile> = {
+  /**
+   * Keyboard layouts used by typeText steps.
+   * Only the keys measured so far are mapped; add the positions of other keys
+   * before typing values that use them.
+   */
+  'pin-pad.json': {
+    version: SEQUENCE_FORMAT_VERSION,
+    type: 'keyboard',
+    id: 'pin-pad',
+    keys: {
+      '1': { x: 25, y: 50 },
+    },
+  },
+
+  'word-keys.json': {
+    version: SEQUENCE_FORMAT_VERSION,
+    type: 'keyboard',
+    id: 'word-keys',
+    keys: {
+      a: { x: 20, y: 80 },
+      l: { x: 59, y: 80 },
+    },
+  },
+
+  /** Shared prefix steps (language, PIN, navigation to wallet import) */
+  'prefix.json': {
+    version: SEQUENCE_FORMAT_VERSION,
+    type: 'fragment',
+    id: 'prefix',
+    params: [{ name: 'pin', type: 'digits', label: 'PIN码', length: 4, default: '1111' }],
+    steps: [
+      // Initial setup
+      { label: '选择语言', x: 30, y: 55, depth: 12 },
+      { label: '点击继续', x: 30, y: 85, depth: 12 },
+      // Enter PIN code
+      { label: '输入PIN码', typeText: '{{pin}}', keyboard: 'pin-pad', depth: 12 },
+      { label: '点击确认', x: 55, y: 85, depth: 12 },
+      // Confirm PIN code
+      { label: '再次确认PIN码', typeText: '{{pin}}', keyboard: 'pin-pad', depth: 12 },
+      { label: '点击确认', x: 55, y: 85, depth: 12 },
+      // Navigation
+      { label: '点击继续', x: 55, y: 85, depth: 12 },
+      { label: '点击稍后设置', x: 55, y: 85, depth: 12 },
+      { label: '点击导入钱包', x: 55, y: 85, depth: 12 },
+      { label: '点击助记词', x: 55, y: 75, depth: 12 },
+    ],
+  },
+
+  /** Shared suffix steps (continue, next, finish, reset) */
+  'suffix.json': {
+    version: SEQUENCE_FORMAT_VERSION,
+    type: 'fragment',
+    id: 'suffix',
+    steps: [
+      { label: '点击继续', x: 55, y: 85, depth: 12 },
+      { label: '点击下一步', x: 55, y: 85, depth: 12 },
+      { label: '点击完成', x: 55, y: 85, depth: 12, delayAfter: 2000 },
+      { label: '复位', x: 0, y: 0, depth: 12 },
+    ],
+  },
+
+  /** 12-word mnemonic input (defaults to "all" x12) */
+  'words-12.json': {
+    version: SEQUENCE_FORMAT_VERSION,
+    type: 'sequence',
+    id: 'words-12',
+    name: '12个词',
+    params: [
+      { name: 'words', type: 'words', label: '助记词', length: 12, default: Array(12).fill('all').join(' ') },
+    ],
+    steps: [
+      { label: '点击12位助记词', x: 55, y: 50, depth: 12 },
+      { label: '点击继续', x: 55, y: 85, depth: 12 },
+      // One word per loop: type it on the word keyboard, then confirm
+      {
+        label: '输入第{{index}}个单词',
+        forEach: 'words',
+        as: 'word',
+        steps: [
+          { label: '点击单词{{word}}', typeText: '{{word}}', keyboard: 'word-keys', depth: 12, keyDelay: 1000, delayAfter: 1000 },
+          { label: '点击确认', x: 59, y: 88, depth: 12, delayAfter: 2000 },
+        ],
+      },
+    ],
+  },
+
+  /** Reset wallet */
+  'reset-wallet.json': {
+    version: SEQUENCE_FORMAT_VERSION,
+    type: 'sequence',
+    id: 'reset-wallet',
+    name: '重置钱包',
+    skipPrefix: true,
+    skipSuffix: true,
+    params: [{ name: 'pin', type: 'digits', label: 'PIN码', length: 4, default: '1111' }],
+    steps: [
+      // Wake up password keyboard (tap, then double tap)
+      { label: '唤醒键盘0', x: 35, y: 85, depth: 12 },
+      { label: '唤醒键盘', x: 35, y: 85, depth: 12, doubleTapGap: 100, delayAfter: 1000 },
+      // Enter PIN
+      { label: '输入PIN码', typeText: '{{pin}}', keyboard: 'pin-pad', depth: 12 },
+      { label: '点击确认', x: 55, y: 85, depth: 12, delayAfter: 2000 },
+      // Enter settings
+      { label: '进入设置APP', x: 50, y: 65, depth: 12 },
+      { label: '进入钱包栏目', x: 50, y: 55, depth: 12 },
+      // Swipe up
+      { label: '向上滑动', x: 35, y: 85, depth: 12, swipeTo: { x: 35, y: 70 } },
+      // Double click
+      { label: '双击', x: 50, y: 85, depth: 12, doubleTapGap: 100 },
+      // Settings navigation
+      { label: '点击设置项1', x: 25, y: 40, depth: 12 },
+      { label: '点击设置项2', x: 25, y: 55, depth: 12 },
+      // Swipe left to right, hold before release, then wait
+      { label: '向右滑动', x: 20, y: 75, depth: 12, swipeTo: { x: 60, y: 75 }, swipeHoldDelay: 500, delayAfter: 5000 },
+      // Final confirmation with wait
+      { label: '点击确认', x: 25, y: 85, depth: 12, delayAfter: 10000 },
+      // Reset to origin
+      { label: '复位', x: 0, y: 0, depth: 12 },
+    ],
+  },
+};
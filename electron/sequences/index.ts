@@ -0,0 +1,450 @@
+/**
+ * Sequence library for the main process.
+ * Loads auto-operation sequences from JSON files in the user data directory,
+ * validates them, composes the shared prefix/suffix fragments and keyboards,
+ * and reloads whenever the directory changes.
+ */
+
+import fs, { FSWatcher } from 'fs';
+import { z } from 'zod';
+import type { NativeImage } from 'electron';
+import {
+  getUserDataPath,
+  listJsonFiles,
+  readBinaryFile,
+  readJsonFile,
+  writeBinaryFile,
+  writeJsonFile,
+} from '../storage';
+import { decodeFrame } from '../vision';
+import { DEFAULT_SEQUENCE_FILES } from './defaults';
+import {
+  KeyboardMap,
+  LoadedSequence,
+  SequenceDirectoryFile,
+  SequenceFile,
+  SequenceLibrary,
+  SequenceLoadError,
+  SequenceParam,
+  SequenceStep,
+  SEQUENCE_FORMAT_VERSION,
+  SEQUENCE_ID_PATTERN,
+  PREFIX_FRAGMENT_ID,
+  SUFFIX_FRAGMENT_ID,
+} from '../../shared/sequence';
+
+/** Sequences directory name in the user data directory */
+const SEQUENCES_DIR = 'sequences';
+
+/** Reference frames directory, inside the sequences directory */
+const REFERENCES_DIR = `${SEQUENCES_DIR}/references`;
+
+/** Allowed reference frame file names */
+const REFERENCE_NAME_PATTERN = /^[\w-]+\.(jpg|jpeg|png)$/;
+
+/** Delay before reloading after a file change, to coalesce editor saves (ms) */
+const RELOAD_DEBOUNCE = 200;
+
+const pointSchema = z.strictObject({ x: z.number().min(0), y: z.number().min(0) });
+
+/** Schema for a plain step; unknown keys are rejected to catch typos */
+const autoStepSchema = z.strictObject({
+  label: z.string().min(1),
+  x: z.number().min(0),
+  y: z.number().min(0),
+  depth: z.number().min(0),
+  delayAfter: z.number().min(0).optional(),
+  swipeTo: pointSchema.optional(),
+  swipeHoldDelay: z.number().min(0).optional(),
+  longPressDuration: z.number().min(1).optional(),
+  doubleTapGap: z.number().min(0).optional(),
+  moveOnly: z.boolean().optional(),
+});
+
+const typeTextStepSchema = z.strictObject({
+  label: z.string().min(1),
+  typeText: z.string().min(1),
+  keyboard: z.string().min(1),
+  depth: z.number().min(0),
+  keyDelay: z.number().min(0).optional(),
+  delayAfter: z.number().min(0).optional(),
+});
+
+const regionSchema = z.strictObject({
+  x: z.number().min(0),
+  y: z.number().min(0),
+  width: z.number().positive(),
+  height: z.number().positive(),
+});
+
+const waitForMatchStepSchema = z.strictObject({
+  label: z.string().min(1),
+  waitForMatch: z.strictObject({
+    reference: z.string().regex(REFERENCE_NAME_PATTERN, 'Expected a .jpg or .png file name'),
+    region: regionSchema.optional(),
+    threshold: z.number().min(0).max(1).optional(),
+  }),
+  timeout: z.number().min(0).optional(),
+  delayAfter: z.number().min(0).optional(),
+});
+
+const waitForStableStepSchema = z.strictObject({
+  label: z.string().min(1),
+  waitForStable: z.strictObject({
+    threshold: z.number().min(0).max(1).optional(),
+    settle: z.number().min(0).optional(),
+  }),
+  timeout: z.number().min(0).optional(),
+  delayAfter: z.number().min(0).optional(),
+});
+
+/** Schema for any step; loops nest further steps */
+const stepSchema: z.ZodType<SequenceStep> = z.lazy(() =>
+  z.union([
+    autoStepSchema,
+    typeTextStepSchema,
+    waitForMatchStepSchema,
+    waitForStableStepSchema,
+    z.strictObject({
+      label: z.string().min(1),
+      forEach: z.string().min(1),
+      as: z.string().regex(/^\w+$/),
+      steps: z.array(stepSchema).min(1),
+    }),
+  ])
+);
+
+const paramSchema = z.strictObject({
+  name: z.string().regex(/^\w+$/),
+  type: z.enum(['string', 'digits', 'words']),
+  label: z.string().optional(),
+  default: z.string().optional(),
+  length: z.number().int().min(1).optional(),
+});
+
+const versionSchema = z.literal(SEQUENCE_FORMAT_VERSION, {
+  error: `Unsupported version (expected ${SEQUENCE_FORMAT_VERSION})`,
+});
+
+/** Schema used to validate sequence directory files */
+const sequenceFileSchema = z.discriminatedUnion('type', [
+  z.strictObject({
+    version: versionSchema,
+    type: z.literal('sequence'),
+    id: z.string().min(1),
+    name: z.string().min(1),
+    description: z.string().optional(),
+    skipPrefix: z.boolean().optional(),
+    skipSuffix: z.boolean().optional(),
+    params: z.array(paramSchema).optional(),
+    steps: z.array(stepSchema).min(1),
+  }),
+  z.strictObject({
+    version: versionSchema,
+    type: z.literal('fragment'),
+    id: z.string().min(1),
+    params: z.array(paramSchema).optional(),
+    steps: z.array(stepSchema),
+  }),
+  z.strictObject({
+    version: versionSchema,
+    type: z.literal('keyboard'),
+    id: z.string().min(1),
+    keys: z.record(z.string().length(1), pointSchema),
+  }),
+]);
+
+/** Loaded sequences and load errors */
+let library: SequenceLibrary = { sequences: [], errors: [] };
+
+/** Sequences change callback type */
+type SequencesChangeCallback = (library: SequenceLibrary) => void;
+
+/** Sequences change listener (set by main process) */
+let changeCallback: SequencesChangeCallback | null = null;
+
+/** Directory watcher (null when not watching) */
+let watcher: FSWatcher | null = null;
+
+/** Pending debounced reload */
+let reloadTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Flattens validation issues into "path: message" entries.
+ * For steps matching none of the step kinds, reports the closest kind's issues.
+ */
+function collectIssues(issues: z.core.$ZodIssue[], prefix: PropertyKey[]): string[] {
+  return issues.flatMap((issue) => {
+    const path = [...prefix, ...issue.path];
+    if (issue.code === 'invalid_union' && issue.errors.length > 0) {
+      const closest = issue.errors.reduce((a, b) => (b.length < a.length ? b : a));
+      return collectIssues(closest, path);
+    }
+    return [`${path.length > 0 ? path.map(String).join('.') : '(root)'}: ${issue.message}`];
+  });
+}
+
+/**
+ * Formats a validation error as "path: message" entries.
+ */
+function formatValidationError(error: z.ZodError): string {
+  return collectIssues(error.issues, []).join('; ');
+}
+
+/**
+ * Collects the keyboard IDs used by typeText steps, including inside loops.
+ */
+function collectKeyboardIds(steps: SequenceStep[], ids: Set<string> = new Set()): Set<string> {
+  for (const step of steps) {
+    if ('forEach' in step) {
+      collectKeyboardIds(step.steps, ids);
+    } else if ('typeText' in step) {
+      ids.add(step.keyboard);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Gets the absolute path of the sequences directory.
+ */
+export function getSequencesPath(): string {
+  return getUserDataPath(SEQUENCES_DIR);
+}
+
+/**
+ * Gets the loaded sequences and the errors found while loading them.
+ */
+export function getSequenceLibrary(): SequenceLibrary {
+  return library;
+}
+
+/**
+ * Sets the callback invoked whenever the sequence library is reloaded.
+ * Called by main process to forward changes to the renderer.
+ *
+ * @param callback - Change listener
+ */
+export function setSequencesChangeCallback(callback: SequencesChangeCallback): void {
+  changeCallback = callback;
+}
+
+/**
+ * Writes the built-in sequences into a new sequences directory.
+ *
+ * @returns Written file names
+ */
+async function seedDefaultSequences(): Promise<string[]> {
+  const files = Object.keys(DEFAULT_SEQUENCE_FILES).sort();
+  for (const file of files) {
+    await writeJsonFile(`${SEQUENCES_DIR}/${file}`, DEFAULT_SEQUENCE_FILES[file]);
+  }
+  return files;
+}
+
+/**
+ * Loads every file in the sequences directory.
+ * Seeds the built-in sequences if the directory does not exist yet.
+ * Invalid files are reported in the returned errors instead of failing the whole load.
+ *
+ * @returns Loaded sequence library
+ */
+export async function loadSequences(): Promise<SequenceLibrary> {
+  const files = (await listJsonFiles(SEQUENCES_DIR)) ?? (await seedDefaultSequences());
+  const errors: SequenceLoadError[] = [];
+  const fragments = new Map<string, { params: SequenceParam[]; steps: SequenceStep[] }>();
+  const keyboards = new Map<string, KeyboardMap>();
+  const parsed: { file: string; content: SequenceDirectoryFile }[] = [];
+
+  for (const file of files) {
+    try {
+      const data = await readJsonFile(`${SEQUENCES_DIR}/${file}`);
+      const result = sequenceFileSchema.safeParse(data);
+      if (!result.success) {
+        errors.push({ file, message: formatValidationError(result.error) });
+        continue;
+      }
+      if (result.data.type === 'fragment') {
+        if (fragments.has(result.data.id)) {
+          errors.push({ file, message: `Duplicate fragment ID "${result.data.id}"` });
+          continue;
+        }
+        fragments.set(result.data.id, { params: result.data.params ?? [], steps: result.data.steps });
+      }
+      if (result.data.type === 'keyboard') {
+        if (keyboards.has(result.data.id)) {
+          errors.push({ file, message: `Duplicate keyboard ID "${result.data.id}"` });
+          continue;
+        }
+        keyboards.set(result.data.id, result.data.keys);
+      }
+      parsed.push({ file, content: result.data });
+    } catch (error) {
+      errors.push({ file, message: error instanceof Error ? error.message : 'Unreadable file' });
+    }
+  }
+
+  const sequences: LoadedSequence[] = [];
+
+  for (const { file, content } of parsed) {
+    if (content.type !== 'sequence') continue;
+
+    if (sequences.some((s) => s.id === content.id)) {
+      errors.push({ file, message: `Duplicate sequence ID "${content.id}"` });
+      continue;
+    }
+
+    const none = { params: [], steps: [] };
+    const prefix = content.skipPrefix ? none : fragments.get(PREFIX_FRAGMENT_ID);
+    const suffix = content.skipSuffix ? none : fragments.get(SUFFIX_FRAGMENT_ID);
+    if (!prefix || !suffix) {
+      const missing = prefix ? SUFFIX_FRAGMENT_ID : PREFIX_FRAGMENT_ID;
+      const flag = prefix ? 'skipSuffix' : 'skipPrefix';
+      errors.push({
+        file,
+        message: `Fragment "${missing}" not found (add ${missing}.json or set ${flag})`,
+      });
+      continue;
+    }
+
+    const steps = [...prefix.steps, ...content.steps, ...suffix.steps];
+
+    // The sequence's own declaration wins over a fragment's for the same name
+    const params = new Map<string, SequenceParam>();
+    [...prefix.params, ...suffix.params, ...(content.params ?? [])].forEach((param) => {
+      params.set(param.name, param);
+    });
+
+    const keyboardIds = Array.from(collectKeyboardIds(steps));
+    const missingKeyboard = keyboardIds.find((id) => !keyboards.has(id));
+    if (missingKeyboard) {
+      errors.push({ file, message: `Keyboard "${missingKeyboard}" not found` });
+      continue;
+    }
+
+    sequences.push({
+      id: content.id,
+      name: content.name,
+      description: content.description,
+      file,
+      params: Array.from(params.values()),
+      keyboards: Object.fromEntries(keyboardIds.map((id) => [id, keyboards.get(id)!])),
+      steps,
+    });
+  }
+
+  errors.forEach((error) => console.warn(`Sequence ${error.file}: ${error.message}`));
+
+  library = { sequences, errors };
+  return library;
+}
+
+/**
+ * Loads a reference frame used by waitForMatch checkpoints.
+ *
+ * @param name - File name in the references directory
+ * @returns Decoded reference frame
+ * @throws Error if the file is missing or not an image
+ */
+export async function loadReferenceFrame(name: string): Promise<NativeImage> {
+  if (!REFERENCE_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid reference frame name "${name}"`);
+  }
+  const data = await readBinaryFile(`${REFERENCES_DIR}/${name}`);
+  if (!data) {
+    throw new Error(`Reference frame ${name} not found in ${getUserDataPath(REFERENCES_DIR)}`);
+  }
+  return decodeFrame(data);
+}
+
+/**
+ * Saves a captured frame as a reference for waitForMatch checkpoints.
+ *
+ * @param name - File name without extension (letters, digits, "-" and "_")
+ * @param frame - Base64 JPEG frame
+ * @returns Saved file name
+ * @throws Error if the name is invalid
+ */
+export async function saveReferenceFrame(name: string, frame: string): Promise<string> {
+  const file = `${name}.jpg`;
+  if (!REFERENCE_NAME_PATTERN.test(file)) {
+    throw new Error(`Invalid reference frame name "${name}"`);
+  }
+  await writeBinaryFile(`${REFERENCES_DIR}/${file}`, Buffer.from(frame, 'base64'));
+  return file;
+}
+
+/**
+ * Validates and writes a new sequence file, then reloads the library.
+ * The file is named after the sequence ID; existing files are never overwritten.
+ *
+ * @param sequence - Sequence to save (e.g. a recording from the control panel)
+ * @returns Reloaded sequence library
+ * @throws Error if the sequence is invalid or a file with its ID already exists
+ */
+export async function saveSequence(sequence: SequenceFile): Promise<SequenceLibrary> {
+  const result = sequenceFileSchema.safeParse(sequence);
+  if (!result.success) {
+    throw new Error(formatValidationError(result.error));
+  }
+  if (!SEQUENCE_ID_PATTERN.test(sequence.id)) {
+    throw new Error(`Invalid sequence ID "${sequence.id}" (use letters, digits, "-" and "_")`);
+  }
+
+  const file = `${sequence.id}.json`;
+  const existing = (await listJsonFiles(SEQUENCES_DIR)) ?? [];
+  if (existing.includes(file)) {
+    throw new Error(`Sequence file ${file} already exists`);
+  }
+
+  await writeJsonFile(`${SEQUENCES_DIR}/${file}`, result.data);
+  const updated = await loadSequences();
+  changeCallback?.(updated);
+  return updated;
+}
+
+/**
+ * Starts watching the sequences directory and reloads on every change.
+ * Call after loadSequences() so the directory exists.
+ */
+export function watchSequences(): void {
+  if (watcher) return;
+
+  watcher = fs.watch(getSequencesPath(), () => {
+    if (reloadTimer) {
+      clearTimeout(reloadTimer);
+    }
+    reloadTimer = setTimeout(async () => {
+      reloadTimer = null;
+      try {
+        changeCallback?.(await loadSequences());
+      } catch (error) {
+        // Keep the loaded sequences and report the failed reload as a directory error
+        const message = `Reload failed: ${error instanceof Error ? error.message : String(error)}`;
+        console.warn(`Sequence ${SEQUENCES_DIR}: ${message}`);
+        library = {
+          sequences: library.sequences,
+          errors: [...library.errors.filter((e) => e.file !== SEQUENCES_DIR), { file: SEQUENCES_DIR, message }],
+        };
+        changeCallback?.(library);
+      }
+    }, RELOAD_DEBOUNCE);
+  });
+
+  watcher.on('error', (error) => {
+    console.warn('Sequence directory watcher stopped:', error);
+    stopWatchingSequences();
+  });
+}
+
+/**
+ * Stops watching the sequences directory.
+ */
+export function stopWatchingSequences(): void {
+  if (reloadTimer) {
+    clearTimeout(reloadTimer);
+    reloadTimer = null;
+  }
+  watcher?.close();
+  watcher = null;
+}
@@ -0,0 +1,317 @@
+/**
+ * Sequence runner for the main process.
+ * Runs auto-operation sequences step by step through the shared arm driver,
+ * so the control panel and MCP clients start, follow and cancel the same run.
+ * Checkpoint steps poll the camera until the screen settles or matches a reference.
+ * Only one sequence runs at a time.
+ */
+
+import type { ArmDriver } from '../arm/driver';
+import { FrameSource, FrameWaitError, waitForMatchingFrame, waitForStableFrame } from '../vision';
+import { loadReferenceFrame } from './index';
+import {
+  LoadedSequence,
+  RunStep,
+  SequenceParamValues,
+  SequenceRunOptions,
+  SequenceRunProgress,
+  SequenceRunSummary,
+  SequenceStepResult,
+  expandSequence,
+} from '../../shared/sequence';
+
+/** Wait after a step without delayAfter (ms) */
+const DEFAULT_STEP_DELAY = 200;
+
+/** Sequence run progress listener */
+export type SequenceProgressListener = (progress: SequenceRunProgress) => void;
+
+/**
+ * Delays execution for specified milliseconds, ending early when the signal aborts.
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * Runs a single step: a screen checkpoint, a swipe, a move, or a click,
+ * long press or double tap at a position. Checkpoints end early when the run is cancelled.
+ */
+async function runStep(driver: ArmDriver, capture: FrameSource, step: RunStep, signal: AbortSignal): Promise<void> {
+  if ('waitForStable' in step) {
+    await waitForStableFrame(capture, { ...step.waitForStable, timeout: step.timeout, signal });
+    return;
+  }
+  if ('waitForMatch' in step) {
+    const reference = await loadReferenceFrame(step.waitForMatch.reference);
+    await waitForMatchingFrame(capture, reference, {
+      region: step.waitForMatch.region,
+      threshold: step.waitForMatch.threshold,
+      timeout: step.timeout,
+      signal,
+    });
+    return;
+  }
+
+  if (step.swipeTo) {
+    await driver.swipe({ x: step.x, y: step.y }, step.swipeTo, step.depth, step.swipeHoldDelay);
+    return;
+  }
+
+  // Each touch is one queued gesture, so no other command can move the arm before it lands
+  if (step.moveOnly) {
+    await driver.moveTo(step.x, step.y);
+  } else if (step.doubleTapGap !== undefined) {
+    await driver.doubleTapAt(step.x, step.y, step.depth, step.doubleTapGap);
+  } else if (step.longPressDuration !== undefined) {
+    await driver.longPressAt(step.x, step.y, step.depth, step.longPressDuration);
+  } else {
+    await driver.tap(step.x, step.y, step.depth);
+  }
+}
+
+/**
+ * Runs sequences one at a time and reports progress after every step.
+ * A run can be paused between steps, advanced one step at a time,
+ * started from any step and stopped at breakpoints.
+ */
+export class SequenceRunner {
+  private driver: ArmDriver;
+  private capture: FrameSource;
+  private progress: SequenceRunProgress | null = null;
+  private cancelRequested = false;
+  /** Aborted on cancel so checkpoint waits and step delays end early */
+  private abortRun: AbortController | null = null;
+  private pauseRequested = false;
+  private breakpoints: Set<number> = new Set();
+  private resumeRun: (() => void) | null = null;
+  private listeners: Set<SequenceProgressListener> = new Set();
+
+  constructor(driver: ArmDriver, capture: FrameSource) {
+    this.driver = driver;
+    this.capture = capture;
+  }
+
+  /**
+   * Gets the progress of the active run.
+   *
+   * @returns Progress, or null when no sequence is running or paused
+   */
+  getProgress(): SequenceRunProgress | null {
+    const status = this.progress?.status;
+    return status === 'running' || status === 'paused' ? this.progress : null;
+  }
+
+  /**
+   * Subscribes to run progress (every step, pauses and the final status).
+   *
+   * @param listener - Called with each progress update
+   * @returns Unsubscribe function
+   */
+  onProgress(listener: SequenceProgressListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stores and broadcasts a progress update.
+   */
+  private updateProgress(progress: SequenceRunProgress): void {
+    this.progress = progress;
+    this.listeners.forEach((listener) => listener(progress));
+  }
+
+  /**
+   * Waits until the paused run is resumed, stepped or cancelled.
+   */
+  private waitForResume(): Promise<void> {
+    return new Promise((resolve) => {
+      this.resumeRun = () => {
+        this.resumeRun = null;
+        resolve();
+      };
+    });
+  }
+
+  /**
+   * Runs a sequence to completion, failure or cancellation.
+   * A failing step stops the run; it is reported in the summary rather than thrown.
+   *
+   * @param sequence - Sequence to run (prefix and suffix already composed)
+   * @param values - Parameter values (defaults fill the rest)
+   * @param options - Start step, breakpoints and whether to pause before the first step
+   * @returns Summary of the executed steps
+   * @throws Error if the arm is not ready, another sequence is running,
+   *   the parameter values are invalid or the start step does not exist
+   */
+  async run(
+    sequence: LoadedSequence,
+    values?: SequenceParamValues,
+    options: SequenceRunOptions = {}
+  ): Promise<SequenceRunSummary> {
+    if (this.getProgress()) {
+      throw new Error(`Sequence "${this.progress!.name}" is already running`);
+    }
+    const state = this.driver.getState();
+    if (!state.isConnected || !state.isReady) {
+      throw new Error('Arm is not connected or not ready');
+    }
+
+    const runSteps = expandSequence(sequence, values);
+    const startAt = options.startAt ?? 0;
+    if (!Number.isInteger(startAt) || startAt < 0 || startAt >= runSteps.length) {
+      throw new Error(`Start step ${startAt} is out of range (0-${runSteps.length - 1})`);
+    }
+
+    const startedAt = Date.now();
+    const steps: SequenceStepResult[] = [];
+    const base = {
+      sequenceId: sequence.id,
+      name: sequence.name,
+      totalSteps: runSteps.length,
+    };
+    let status: SequenceRunSummary['status'] = 'completed';
+
+    this.cancelRequested = false;
+    const abortRun = new AbortController();
+    this.abortRun = abortRun;
+    this.pauseRequested = options.paused ?? false;
+    this.breakpoints = new Set(options.breakpoints);
+
+    for (let i = startAt; i < runSteps.length; i++) {
+      const step = runSteps[i];
+
+      if (!this.cancelRequested && (this.pauseRequested || this.breakpoints.has(i))) {
+        this.pauseRequested = true;
+        this.updateProgress({ ...base, status: 'paused', completedSteps: steps.length, stepIndex: i, label: step.label });
+        await this.waitForResume();
+      }
+      if (this.cancelRequested) {
+        status = 'cancelled';
+        break;
+      }
+
+      this.updateProgress({ ...base, status: 'running', completedSteps: steps.length, stepIndex: i, label: step.label });
+
+      try {
+        await runStep(this.driver, this.capture, step, abortRun.signal);
+      } catch (error) {
+        if (abortRun.signal.aborted && error instanceof FrameWaitError) {
+          status = 'cancelled';
+          break;
+        }
+        steps.push({
+          index: i,
+          label: step.label,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          frame: error instanceof FrameWaitError ? error.frame ?? undefined : undefined,
+        });
+        status = 'failed';
+        break;
+      }
+
+      steps.push({ index: i, label: step.label, status: 'completed' });
+      await delay(step.delayAfter ?? DEFAULT_STEP_DELAY, abortRun.signal);
+    }
+    this.abortRun = null;
+
+    const completedSteps = steps.filter((s) => s.status === 'completed').length;
+    const last = steps[steps.length - 1];
+    this.updateProgress({
+      ...base,
+      status,
+      completedSteps,
+      stepIndex: last?.index ?? startAt,
+      label: last?.label ?? '',
+    });
+
+    return {
+      ...base,
+      status,
+      completedSteps,
+      steps,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  /**
+   * Requests the active run to pause before its next step.
+   *
+   * @returns True if a run was active
+   */
+  pause(): boolean {
+    if (!this.getProgress()) {
+      return false;
+    }
+    this.pauseRequested = true;
+    return true;
+  }
+
+  /**
+   * Resumes a paused run until the next breakpoint.
+   *
+   * @returns True if a paused run was resumed
+   */
+  resume(): boolean {
+    if (!this.resumeRun) {
+      return false;
+    }
+    this.pauseRequested = false;
+    this.resumeRun();
+    return true;
+  }
+
+  /**
+   * Runs the next step of a paused run, then pauses again.
+   *
+   * @returns True if a paused run was advanced
+   */
+  step(): boolean {
+    if (!this.resumeRun) {
+      return false;
+    }
+    this.pauseRequested = true;
+    this.resumeRun();
+    return true;
+  }
+
+  /**
+   * Replaces the breakpoints of the active run.
+   *
+   * @param indices - Expanded step indices to pause before
+   */
+  setBreakpoints(indices: number[]): void {
+    this.breakpoints = new Set(indices);
+  }
+
+  /**
+   * Requests the active run to stop before its next step.
+   * A checkpoint wait or step delay in progress ends at once.
+   *
+   * @returns True if a run was active
+   */
+  cancel(): boolean {
+    if (!this.getProgress()) {
+      return false;
+    }
+    this.cancelRequested = true;
+    this.abortRun?.abort();
+    this.resumeRun?.();
+    return true;
+  }
+}
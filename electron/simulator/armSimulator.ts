@@ -0,0 +1,158 @@
+/**
+ * Simulated arm controller.
+ * Implements the duankou/hco/daima protocol of the WCF arm service in memory,
+ * so tool logic can be developed and tested without hardware.
+ */
+
+/** Command parameters as received in the query string */
+export interface SimulatorCommand {
+  duankou: string;
+  hco: number;
+  daima: string;
+}
+
+/** Simulated HTTP reply */
+export interface SimulatorReply {
+  status: number;
+  /** JSON-encoded string, matching the real service (e.g. "1136") */
+  body: string;
+}
+
+/** State of one opened port */
+export interface SimulatedPort {
+  comPort: string;
+  handle: number;
+  x: number;
+  y: number;
+  z: number;
+  openedAt: string;
+}
+
+/** Entry in the simulator command history */
+export interface SimulatorLogEntry {
+  time: string;
+  command: SimulatorCommand;
+  status: number;
+  result: string;
+}
+
+/** Maximum number of history entries kept */
+const HISTORY_LIMIT = 200;
+
+/** First resource handle handed out (real controllers return four-digit handles) */
+const FIRST_HANDLE = 1136;
+
+/** Movement/depth command pattern, e.g. X50Y50, Z6, X0Y0Z0 */
+const MOTION_PATTERN = /^(?:X(\d+))?(?:Y(\d+))?(?:Z(\d+))?$/;
+
+/**
+ * In-memory arm controller.
+ * Opening a port returns a handle; commands must carry a handle that is currently open.
+ * Closing a port invalidates its handle.
+ */
+export class ArmSimulator {
+  private ports: Map<number, SimulatedPort> = new Map();
+  private nextHandle = FIRST_HANDLE;
+  private history: SimulatorLogEntry[] = [];
+
+  /**
+   * Handles a single protocol request.
+   *
+   * @param command - Parsed query parameters
+   * @returns Reply to send to the client
+   */
+  handle(command: SimulatorCommand): SimulatorReply {
+    const reply = this.dispatch(command);
+    this.history = [
+      ...this.history.slice(-(HISTORY_LIMIT - 1)),
+      {
+        time: new Date().toISOString(),
+        command,
+        status: reply.status,
+        result: reply.body,
+      },
+    ];
+    return reply;
+  }
+
+  /**
+   * Gets the open ports and recent command history.
+   */
+  getState(): { ports: SimulatedPort[]; history: SimulatorLogEntry[] } {
+    return {
+      ports: Array.from(this.ports.values()).map((port) => ({ ...port })),
+      history: [...this.history],
+    };
+  }
+
+  /**
+   * Closes all ports and clears history.
+   */
+  reset(): void {
+    this.ports.clear();
+    this.history = [];
+  }
+
+  /**
+   * Routes a request to the open-port or command handler.
+   *
+   * @param command - Parsed query parameters
+   * @returns Reply to send to the client
+   */
+  private dispatch(command: SimulatorCommand): SimulatorReply {
+    if (command.duankou !== '0') {
+      return this.openPort(command);
+    }
+
+    const port = this.ports.get(command.hco);
+    if (!port) {
+      return { status: 400, body: '"0"' };
+    }
+
+    if (command.daima === '0') {
+      this.ports.delete(port.handle);
+      return { status: 200, body: '"1"' };
+    }
+
+    const match = MOTION_PATTERN.exec(command.daima);
+    if (!match || command.daima === '') {
+      return { status: 400, body: '"0"' };
+    }
+
+    const [, x, y, z] = match;
+    if (x !== undefined) port.x = parseInt(x, 10);
+    if (y !== undefined) port.y = parseInt(y, 10);
+    if (z !== undefined) port.z = parseInt(z, 10);
+
+    return { status: 200, body: '"1"' };
+  }
+
+  /**
+   * Opens a COM port and allocates a resource handle.
+   * Fails with handle 0 if the port is already open or the request is malformed.
+   *
+   * @param command - Parsed query parameters (duankou = COM port, hco = 0, daima = 0)
+   * @returns Reply containing the handle
+   */
+  private openPort(command: SimulatorCommand): SimulatorReply {
+    const alreadyOpen = Array.from(this.ports.values()).some(
+      (port) => port.comPort === command.duankou
+    );
+
+    if (command.hco !== 0 || command.daima !== '0' || alreadyOpen) {
+      return { status: 200, body: '"0"' };
+    }
+
+    const handle = this.nextHandle++;
+    this.ports.set(handle, {
+      comPort: command.duankou,
+      handle,
+      x: 0,
+      y: 0,
+      z: 0,
+      openedAt: new Date().toISOString(),
+    });
+
+    return { status: 200, body: `"${handle}"` };
+  }
+}
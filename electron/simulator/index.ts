@@ -0,0 +1,77 @@
+/**
+ * Arm controller simulator server.
+ * Serves the simulated protocol on the same port and path as the real WCF service,
+ * so pointing the server IP at 127.0.0.1 is enough to use it.
+ */
+
+import express, { Request, Response } from 'express';
+import { Server } from 'http';
+import { ArmSimulator } from './armSimulator';
+import { ARM_CONFIG } from '../../shared/arm';
+
+/** Simulator options */
+export interface ArmSimulatorOptions {
+  /** Port to listen on (default: the real service port) */
+  port?: number;
+  /** Artificial latency added to every reply (ms) */
+  latencyMs?: number;
+  /** Probability (0-1) of dropping a request's connection to simulate failures */
+  failureRate?: number;
+}
+
+/**
+ * Starts the simulator HTTP server.
+ * GET {apiPath} implements the arm protocol; GET /simulator/state returns
+ * open ports and recent commands; POST /simulator/reset closes all ports.
+ *
+ * @param options - Port, latency and failure injection settings
+ * @returns Running HTTP server
+ */
+export function startArmSimulator(options: ArmSimulatorOptions = {}): Promise<Server> {
+  const port = options.port ?? parseInt(ARM_CONFIG.apiPort, 10);
+  const latencyMs = options.latencyMs ?? 0;
+  const failureRate = options.failureRate ?? 0;
+  const simulator = new ArmSimulator();
+  const app = express();
+
+  app.get(ARM_CONFIG.apiPath, (req: Request, res: Response) => {
+    const command = {
+      duankou: String(req.query.duankou ?? ''),
+      hco: parseInt(String(req.query.hco ?? '0'), 10) || 0,
+      daima: String(req.query.daima ?? ''),
+    };
+
+    setTimeout(() => {
+      if (Math.random() < failureRate) {
+        console.log(`[Simulator] Dropped request: ${JSON.stringify(command)}`);
+        req.socket.destroy();
+        return;
+      }
+
+      const reply = simulator.handle(command);
+      console.log(`[Simulator] ${JSON.stringify(command)} -> ${reply.status} ${reply.body}`);
+      res.status(reply.status).type('application/json').send(reply.body);
+    }, latencyMs);
+  });
+
+  app.get('/simulator/state', (_req: Request, res: Response) => {
+    res.json(simulator.getState());
+  });
+
+  app.post('/simulator/reset', (_req: Request, res: Response) => {
+    simulator.reset();
+    res.json({ status: 'ok' });
+  });
+
+  return new Promise((resolve, reject) => {
+    const server = app.listen(port, '127.0.0.1', () => {
+      console.log(`Arm simulator running on http://127.0.0.1:${port}${ARM_CONFIG.apiPath}`);
+      console.log(`  - latency: ${latencyMs}ms, failure rate: ${failureRate}`);
+      resolve(server);
+    });
+    server.on('error', reject);
+  });
+}
+
+export { ArmSimulator } from './armSimulator';
+export type { SimulatorCommand, SimulatorReply, SimulatedPort } from './armSimulator';
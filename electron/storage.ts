@@ -0,0 +1,112 @@
+/**
+ * File storage in the application user data directory.
+ * Used for settings that must survive restarts (calibration, sequences, etc.)
+ * and for binary assets such as reference frames.
+ */
+
+import { app } from 'electron';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Resolves a path inside the user data directory.
+ *
+ * @param segments - Path segments relative to the user data directory
+ * @returns Absolute path
+ */
+export function getUserDataPath(...segments: string[]): string {
+  return path.join(app.getPath('userData'), ...segments);
+}
+
+/**
+ * Reads and parses a JSON file from the user data directory.
+ *
+ * @param fileName - File name relative to the user data directory
+ * @returns Parsed content, or null if the file does not exist
+ * @throws Error if the file exists but cannot be parsed
+ */
+export async function readJsonFile(fileName: string): Promise<unknown | null> {
+  try {
+    const content = await fs.readFile(getUserDataPath(fileName), 'utf-8');
+    return JSON.parse(content);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Writes data as formatted JSON to the user data directory.
+ * Writes to a temporary file first, then renames it to avoid partial files.
+ *
+ * @param fileName - File name relative to the user data directory
+ * @param data - Data to serialize
+ */
+export async function writeJsonFile(fileName: string, data: unknown): Promise<void> {
+  const filePath = getUserDataPath(fileName);
+  const tempPath = `${filePath}.tmp`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Reads a binary file from the user data directory.
+ *
+ * @param fileName - File name relative to the user data directory
+ * @returns File content, or null if the file does not exist
+ */
+export async function readBinaryFile(fileName: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(getUserDataPath(fileName));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Writes a binary file to the user data directory.
+ * Writes to a temporary file first, then renames it to avoid partial files.
+ *
+ * @param fileName - File name relative to the user data directory
+ * @param data - File content
+ */
+export async function writeBinaryFile(fileName: string, data: Buffer): Promise<void> {
+  const filePath = getUserDataPath(fileName);
+  const tempPath = `${filePath}.tmp`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Deletes a file from the user data directory if it exists.
+ *
+ * @param fileName - File name relative to the user data directory
+ */
+export async function deleteFile(fileName: string): Promise<void> {
+  await fs.rm(getUserDataPath(fileName), { force: true });
+}
+
+/**
+ * Lists the JSON files in a user data subdirectory.
+ *
+ * @param dirName - Directory name relative to the user data directory
+ * @returns Sorted file names, or null if the directory does not exist
+ */
+export async function listJsonFiles(dirName: string): Promise<string[] | null> {
+  try {
+    const entries = await fs.readdir(getUserDataPath(dirName));
+    return entries.filter((name) => name.endsWith('.json')).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Camera frame comparison for the main process.
+ * Decodes captured JPEG frames with nativeImage and compares downscaled
+ * grayscale versions, so checks stay cheap enough to poll several times a second.
+ */
+
+import { nativeImage, NativeImage } from 'electron';
+import type { FrameRegion } from '../shared/frame';
+
+/** Vision configuration */
+export const VISION_CONFIG = {
+  /** Width frames are downscaled to before comparing (px) */
+  sampleWidth: 96,
+  /** Time between frame captures while waiting (ms) */
+  pollInterval: 200,
+  /** Default wait timeout (ms) */
+  defaultTimeout: 10000,
+  /** Default difference between consecutive frames still counted as stable (0-1) */
+  defaultStableThreshold: 0.01,
+  /** Default time the screen must stay unchanged (ms) */
+  defaultSettle: 500,
+  /** Default difference to a reference frame still counted as a match (0-1) */
+  defaultMatchThreshold: 0.05,
+} as const;
+
+/** Frame capture function (returns base64 JPEG, or null if the camera is unavailable) */
+export type FrameSource = () => Promise<string | null>;
+
+/** Frame that ended a wait */
+export interface WaitResult {
+  /** Base64 JPEG frame */
+  frame: string;
+  /** Time spent waiting (ms) */
+  elapsedMs: number;
+  /** Difference of the last comparison (0-1) */
+  difference: number;
+}
+
+/**
+ * Error thrown when a wait times out.
+ * Carries the last captured frame so callers can show what the screen looked like.
+ */
+export class FrameWaitError extends Error {
+  readonly frame: string | null;
+
+  constructor(message: string, frame: string | null) {
+    super(message);
+    this.name = 'FrameWaitError';
+    this.frame = frame;
+  }
+}
+
+/** Grayscale sample of a frame or frame region */
+interface GraySample {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+/**
+ * Delays execution for specified milliseconds, ending early when the signal aborts.
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * Decodes an image buffer or base64 JPEG.
+ *
+ * @throws Error if the data is not a decodable image
+ */
+export function decodeFrame(data: string | Buffer): NativeImage {
+  const image = nativeImage.createFromBuffer(typeof data === 'string' ? Buffer.from(data, 'base64') : data);
+  if (image.isEmpty()) {
+    throw new Error('Frame could not be decoded');
+  }
+  return image;
+}
+
+/**
+ * Crops a region (clamped to the image) and downscales it to a grayscale sample.
+ */
+function toGraySample(image: NativeImage, region?: FrameRegion): GraySample {
+  const size = image.getSize();
+  let source = image;
+
+  if (region) {
+    const x = Math.max(0, Math.min(Math.round(region.x), size.width - 1));
+    const y = Math.max(0, Math.min(Math.round(region.y), size.height - 1));
+    source = image.crop({
+      x,
+      y,
+      width: Math.max(1, Math.min(Math.round(region.width), size.width - x)),
+      height: Math.max(1, Math.min(Math.round(region.height), size.height - y)),
+    });
+  }
+
+  const sourceSize = source.getSize();
+  if (sourceSize.width > VISION_CONFIG.sampleWidth) {
+    source = source.resize({ width: VISION_CONFIG.sampleWidth, quality: 'good' });
+  }
+
+  const { width, height } = source.getSize();
+  const bitmap = source.toBitmap();
+  const pixels = new Uint8Array(width * height);
+  for (let i = 0; i < pixels.length; i++) {
+    // Bitmaps are BGRA
+    const o = i * 4;
+    pixels[i] = Math.round(0.114 * bitmap[o] + 0.587 * bitmap[o + 1] + 0.299 * bitmap[o + 2]);
+  }
+  return { width, height, pixels };
+}
+
+/**
+ * Mean absolute grayscale difference between two samples of the same size.
+ */
+function sampleDifference(a: GraySample, b: GraySample): number {
+  if (a.width !== b.width || a.height !== b.height) {
+    return 1;
+  }
+  let total = 0;
+  for (let i = 0; i < a.pixels.length; i++) {
+    total += Math.abs(a.pixels[i] - b.pixels[i]);
+  }
+  return total / (a.pixels.length * 255);
+}
+
+/**
+ * Compares two frames (or the same region of both).
+ *
+ * @param a - First frame
+ * @param b - Second frame
+ * @param region - Region compared in both frames (default: whole frame)
+ * @returns Mean pixel difference from 0 (identical) to 1
+ * @throws Error if the frames have different sizes
+ */
+export function frameDifference(a: NativeImage, b: NativeImage, region?: FrameRegion): number {
+  const sizeA = a.getSize();
+  const sizeB = b.getSize();
+  if (sizeA.width !== sizeB.width || sizeA.height !== sizeB.height) {
+    throw new Error(
+      `Frame sizes differ (${sizeA.width}x${sizeA.height} vs ${sizeB.width}x${sizeB.height})`
+    );
+  }
+  return sampleDifference(toGraySample(a, region), toGraySample(b, region));
+}
+
+/**
+ * Captures frames until consecutive frames stay within the threshold for the settle time.
+ *
+ * @param capture - Frame source
+ * @param options - Difference threshold (0-1), settle time, timeout in ms and a signal that cancels the wait
+ * @returns The stable frame and how long it took
+ * @throws FrameWaitError with the last frame if the timeout expires or the wait is cancelled first
+ */
+export async function waitForStableFrame(
+  capture: FrameSource,
+  options: { threshold?: number; settle?: number; timeout?: number; signal?: AbortSignal } = {}
+): Promise<WaitResult> {
+  const threshold = options.threshold ?? VISION_CONFIG.defaultStableThreshold;
+  const settle = options.settle ?? VISION_CONFIG.defaultSettle;
+  const timeout = options.timeout ?? VISION_CONFIG.defaultTimeout;
+  const startedAt = Date.now();
+
+  let previous: GraySample | null = null;
+  let lastFrame: string | null = null;
+  let stableSince: number | null = null;
+  let difference = 1;
+
+  while (Date.now() - startedAt <= timeout && !options.signal?.aborted) {
+    const frame = await capture();
+    if (frame) {
+      const sample = toGraySample(decodeFrame(frame));
+      const now = Date.now();
+      lastFrame = frame;
+
+      if (previous) {
+        difference = sampleDifference(previous, sample);
+        stableSince = difference <= threshold ? stableSince ?? now : null;
+        if (stableSince !== null && now - stableSince >= settle) {
+          return { frame, elapsedMs: now - startedAt, difference };
+        }
+      }
+      previous = sample;
+    }
+    await delay(VISION_CONFIG.pollInterval, options.signal);
+  }
+
+  if (options.signal?.aborted) {
+    throw new FrameWaitError('Wait cancelled', lastFrame);
+  }
+  throw new FrameWaitError(
+    lastFrame
+      ? `Screen did not settle within ${timeout}ms (last difference ${difference.toFixed(3)})`
+      : `No camera frame within ${timeout}ms`,
+    lastFrame
+  );
+}
+
+/**
+ * Captures frames until a region matches the same region of a reference frame.
+ *
+ * @param capture - Frame source
+ * @param reference - Reference frame (same size as captured frames)
+ * @param options - Region, difference threshold (0-1), timeout in ms and a signal that cancels the wait
+ * @returns The matching frame and how long it took
+ * @throws FrameWaitError with the last frame if the timeout expires or the wait is cancelled first
+ */
+export async function waitForMatchingFrame(
+  capture: FrameSource,
+  reference: NativeImage,
+  options: { region?: FrameRegion; threshold?: number; timeout?: number; signal?: AbortSignal } = {}
+): Promise<WaitResult> {
+  const threshold = options.threshold ?? VISION_CONFIG.defaultMatchThreshold;
+  const timeout = options.timeout ?? VISION_CONFIG.defaultTimeout;
+  const startedAt = Date.now();
+
+  let lastFrame: string | null = null;
+  let difference = 1;
+
+  while (Date.now() - startedAt <= timeout && !options.signal?.aborted) {
+    const frame = await capture();
+    if (frame) {
+      lastFrame = frame;
+      try {
+        difference = frameDifference(decodeFrame(frame), reference, options.region);
+      } catch (error) {
+        throw new FrameWaitError(error instanceof Error ? error.message : 'Frame comparison failed', frame);
+      }
+      if (difference <= threshold) {
+        return { frame, elapsedMs: Date.now() - startedAt, difference };
+      }
+    }
+    await delay(VISION_CONFIG.pollInterval, options.signal);
+  }
+
+  if (options.signal?.aborted) {
+    throw new FrameWaitError('Wait cancelled', lastFrame);
+  }
+  throw new FrameWaitError(
+    lastFrame
+      ? `Screen did not match the reference within ${timeout}ms (difference ${difference.toFixed(3)}, threshold ${threshold})`
+      : `No camera frame within ${timeout}ms`,
+    lastFrame
+  );
+}
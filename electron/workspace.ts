@@ -0,0 +1,99 @@
+/**
+ * Workspace limits store for the main process.
+ * Loads, validates and persists travel limits and no-go zones,
+ * and keeps the active limits in memory for the arm driver.
+ */
+
+import { z } from 'zod';
+import { readJsonFile, writeJsonFile } from './storage';
+import { DEFAULT_WORKSPACE_LIMITS, WorkspaceLimits } from '../shared/workspace';
+
+/** Workspace file name in the user data directory */
+const WORKSPACE_FILE = 'workspace.json';
+
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+
+/** Schema used to validate workspace files and limits saved from the renderer */
+const workspaceLimitsSchema = z.object({
+  version: z.literal(1),
+  maxX: z.number().positive(),
+  maxY: z.number().positive(),
+  maxZ: z.number().min(0),
+  zones: z.array(
+    z.discriminatedUnion('kind', [
+      z.object({
+        kind: z.literal('rect'),
+        name: z.string().min(1),
+        x: z.number(),
+        y: z.number(),
+        width: z.number().positive(),
+        height: z.number().positive(),
+      }),
+      z.object({
+        kind: z.literal('polygon'),
+        name: z.string().min(1),
+        points: z.array(pointSchema).min(3),
+      }),
+    ])
+  ),
+});
+
+/** Active workspace limits */
+let limits: WorkspaceLimits = DEFAULT_WORKSPACE_LIMITS;
+
+/** Workspace change callback type */
+type WorkspaceChangeCallback = (limits: WorkspaceLimits) => void;
+
+/** Workspace change listener (set by main process) */
+let changeCallback: WorkspaceChangeCallback | null = null;
+
+/**
+ * Gets the active workspace limits.
+ *
+ * @returns Stored limits, or the defaults if none are stored
+ */
+export function getWorkspaceLimits(): WorkspaceLimits {
+  return limits;
+}
+
+/**
+ * Sets the callback invoked whenever the workspace limits change.
+ * Called by main process to update the arm driver and the renderer.
+ *
+ * @param callback - Change listener
+ */
+export function setWorkspaceChangeCallback(callback: WorkspaceChangeCallback): void {
+  changeCallback = callback;
+}
+
+/**
+ * Loads the workspace limits from disk.
+ * An invalid file is ignored (with a warning) and the defaults are used.
+ *
+ * @returns Loaded limits
+ */
+export async function loadWorkspaceLimits(): Promise<WorkspaceLimits> {
+  try {
+    const data = await readJsonFile(WORKSPACE_FILE);
+    limits = data === null ? DEFAULT_WORKSPACE_LIMITS : workspaceLimitsSchema.parse(data);
+  } catch (error) {
+    console.warn('Ignoring invalid workspace file:', error);
+    limits = DEFAULT_WORKSPACE_LIMITS;
+  }
+  return limits;
+}
+
+/**
+ * Validates and persists new workspace limits.
+ *
+ * @param next - Limits to store
+ * @returns Saved limits
+ * @throws Error if the limits are invalid
+ */
+export async function saveWorkspaceLimits(next: WorkspaceLimits): Promise<WorkspaceLimits> {
+  const validated = workspaceLimitsSchema.parse(next);
+  await writeJsonFile(WORKSPACE_FILE, validated);
+  limits = validated;
+  changeCallback?.(validated);
+  return validated;
+}
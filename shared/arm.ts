@@ -0,0 +1,107 @@
+/**
+ * Arm controller configuration and state types.
+ * Shared by the main-process ArmDriver and the renderer.
+ */
+
+/** Arm controller protocol and timing configuration */
+export const ARM_CONFIG = {
+  /** Default server IP address */
+  defaultServerIP: '192.168.5.106',
+  /** API service port */
+  apiPort: '8082',
+  /** Default COM port */
+  defaultComPort: 'COM3',
+  /** API endpoint path */
+  apiPath: '/MyWcfService/getstring',
+  /** Delay after connection for device to be ready (ms) */
+  deviceReadyDelay: 2000,
+  /** Delay between sequential commands (ms) */
+  commandDelay: 300,
+  /** Stylus hold time for a click (ms) */
+  clickDelay: 250,
+  /** Delay after lowering the stylus before dragging in a swipe (ms) */
+  swipeDownDelay: 50,
+  /** Default hold time at the end of a swipe before lifting (ms) */
+  swipeHoldDelay: 50,
+  /** Default hold duration for a long press (ms) */
+  longPressDuration: 1000,
+  /** Default gap between the two taps of a double tap (ms) */
+  doubleTapGap: 100,
+  /** Default Z-axis depth for click */
+  defaultZDepth: 12,
+  /** Z-axis value for stylus up */
+  zUp: 0,
+} as const;
+
+/** Arm connection and position state owned by the main-process driver */
+export interface ArmState {
+  /** Whether a COM port is open */
+  isConnected: boolean;
+  /** Whether the device-ready delay has elapsed after connecting */
+  isReady: boolean;
+  /** Resource handle returned from connection (> 0 = valid) */
+  resourceHandle: number;
+  /** Server IP address */
+  serverIP: string;
+  /** COM port */
+  comPort: string;
+  /** Current X position in millimeters */
+  currentX: number;
+  /** Current Y position in millimeters */
+  currentY: number;
+  /** Z-axis depth used by the last press */
+  zDepth: number;
+}
+
+/**
+ * Creates the disconnected default arm state.
+ *
+ * @returns Default state
+ */
+export function createInitialArmState(): ArmState {
+  return {
+    isConnected: false,
+    isReady: false,
+    resourceHandle: 0,
+    serverIP: ARM_CONFIG.defaultServerIP,
+    comPort: ARM_CONFIG.defaultComPort,
+    currentX: 0,
+    currentY: 0,
+    zDepth: ARM_CONFIG.defaultZDepth,
+  };
+}
+
+/** Exclusive control of the arm held by one MCP session */
+export interface ArmLease {
+  /** MCP session ID holding the arm */
+  sessionId: string;
+  /** When the lease was acquired (ms since epoch) */
+  acquiredAt: number;
+  /** Last arm tool call from the holder (ms since epoch) */
+  lastActivityAt: number;
+  /** When the lease expires unless renewed (ms since epoch) */
+  expiresAt: number;
+}
+
+/** Timing shared by all completed arm actions */
+interface ArmActionTiming {
+  /** When the gesture started running (ms since epoch) */
+  startedAt: number;
+  /** When the gesture finished (ms since epoch) */
+  finishedAt: number;
+}
+
+/** Completed arm gesture, emitted by the driver for recording */
+export type ArmAction = ArmActionTiming &
+  (
+    | { type: 'move'; x: number; y: number }
+    | { type: 'press'; x: number; y: number; depth: number; holdMs: number }
+    | { type: 'doubleTap'; x: number; y: number; depth: number; gapMs: number }
+    | {
+        type: 'swipe';
+        from: { x: number; y: number };
+        to: { x: number; y: number };
+        depth: number;
+        holdMs: number;
+      }
+  );
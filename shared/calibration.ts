@@ -0,0 +1,422 @@
+/**
+ * Camera-to-arm calibration model.
+ * Maps pixels of the captured (rotated) camera frame to arm millimetres and back
+ * using a planar homography fitted from four or more point pairs.
+ * Shared by the main process and the renderer; contains no Electron or DOM code.
+ */
+
+/** 2D point */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Frame dimensions in pixels */
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
+/** Row-major 3x3 matrix */
+export type Matrix3 = [
+  number, number, number,
+  number, number, number,
+  number, number, number,
+];
+
+/** A single calibration correspondence between a frame pixel and an arm position */
+export interface CalibrationPoint {
+  /** Position in captured frame pixels */
+  pixel: Point;
+  /** Position in arm millimetres */
+  arm: Point;
+}
+
+/** Persisted calibration model */
+export interface CalibrationModel {
+  version: 1;
+  /** Frame size the pixel coordinates refer to */
+  frameWidth: number;
+  frameHeight: number;
+  /** Point pairs the model was fitted from */
+  points: CalibrationPoint[];
+  /** Homography mapping frame pixels to arm millimetres */
+  homography: Matrix3;
+  /** Homography mapping arm millimetres to frame pixels */
+  inverseHomography: Matrix3;
+  /** Root-mean-square residual of the fit in millimetres */
+  rmsError: number;
+  /** ISO timestamp of when the model was created */
+  createdAt: string;
+}
+
+/** Minimum number of point pairs required to fit a homography */
+export const MIN_CALIBRATION_POINTS = 4;
+
+/**
+ * Solves the linear system A·x = b in place using Gaussian elimination
+ * with partial pivoting.
+ *
+ * @param a - Square coefficient matrix (modified)
+ * @param b - Right-hand side vector (modified)
+ * @returns Solution vector
+ * @throws Error if the matrix is singular
+ */
+function solveLinearSystem(a: number[][], b: number[]): number[] {
+  const n = b.length;
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) {
+        pivot = row;
+      }
+    }
+
+    if (Math.abs(a[pivot][col]) < 1e-12) {
+      throw new Error('Calibration points are degenerate (collinear or duplicated)');
+    }
+
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < n; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) {
+      sum -= a[row][k] * x[k];
+    }
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+/**
+ * Multiplies two 3x3 matrices.
+ *
+ * @param a - Left matrix
+ * @param b - Right matrix
+ * @returns Product a·b
+ */
+function multiply3(a: Matrix3, b: Matrix3): Matrix3 {
+  const m = new Array<number>(9).fill(0);
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 3; c++) {
+      for (let k = 0; k < 3; k++) {
+        m[r * 3 + c] += a[r * 3 + k] * b[k * 3 + c];
+      }
+    }
+  }
+  return m as Matrix3;
+}
+
+/**
+ * Inverts a 3x3 matrix.
+ *
+ * @param m - Matrix to invert
+ * @returns Inverse matrix
+ * @throws Error if the matrix is singular
+ */
+export function invertMatrix3(m: Matrix3): Matrix3 {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+
+  if (Math.abs(det) < 1e-12) {
+    throw new Error('Matrix is singular and cannot be inverted');
+  }
+
+  return [
+    (e * i - f * h) / det,
+    (c * h - b * i) / det,
+    (b * f - c * e) / det,
+    (f * g - d * i) / det,
+    (a * i - c * g) / det,
+    (c * d - a * f) / det,
+    (d * h - e * g) / det,
+    (b * g - a * h) / det,
+    (a * e - b * d) / det,
+  ];
+}
+
+/**
+ * Builds a similarity transform that moves the points' centroid to the origin
+ * and scales their mean distance to √2 (Hartley normalization).
+ *
+ * @param points - Points to normalize
+ * @returns Normalizing matrix
+ */
+function normalizationMatrix(points: Point[]): Matrix3 {
+  const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const meanDistance =
+    points.reduce((sum, p) => sum + Math.hypot(p.x - cx, p.y - cy), 0) / points.length;
+  const s = meanDistance > 0 ? Math.SQRT2 / meanDistance : 1;
+  return [s, 0, -s * cx, 0, s, -s * cy, 0, 0, 1];
+}
+
+/**
+ * Applies a homography to a point.
+ *
+ * @param h - Homography matrix
+ * @param p - Point to transform
+ * @returns Transformed point
+ */
+export function applyHomography(h: Matrix3, p: Point): Point {
+  const w = h[6] * p.x + h[7] * p.y + h[8];
+  return {
+    x: (h[0] * p.x + h[1] * p.y + h[2]) / w,
+    y: (h[3] * p.x + h[4] * p.y + h[5]) / w,
+  };
+}
+
+/**
+ * Fits a homography mapping source points to destination points.
+ * Uses normalized least squares with h33 fixed to 1, so four pairs give an
+ * exact fit and additional pairs are averaged.
+ *
+ * @param src - Source points
+ * @param dst - Destination points (same length as src)
+ * @returns Homography mapping src to dst
+ * @throws Error if fewer than four pairs are given or the points are degenerate
+ */
+export function fitHomography(src: Point[], dst: Point[]): Matrix3 {
+  if (src.length !== dst.length) {
+    throw new Error('Source and destination point counts differ');
+  }
+  if (src.length < MIN_CALIBRATION_POINTS) {
+    throw new Error(`At least ${MIN_CALIBRATION_POINTS} point pairs are required, got ${src.length}`);
+  }
+
+  const srcNorm = normalizationMatrix(src);
+  const dstNorm = normalizationMatrix(dst);
+  const ns = src.map((p) => applyHomography(srcNorm, p));
+  const nd = dst.map((p) => applyHomography(dstNorm, p));
+
+  const ata = Array.from({ length: 8 }, () => new Array<number>(8).fill(0));
+  const atb = new Array<number>(8).fill(0);
+
+  const accumulate = (row: number[], value: number) => {
+    for (let r = 0; r < 8; r++) {
+      for (let c = 0; c < 8; c++) {
+        ata[r][c] += row[r] * row[c];
+      }
+      atb[r] += row[r] * value;
+    }
+  };
+
+  for (let i = 0; i < ns.length; i++) {
+    const { x, y } = ns[i];
+    const { x: u, y: v } = nd[i];
+    accumulate([x, y, 1, 0, 0, 0, -u * x, -u * y], u);
+    accumulate([0, 0, 0, x, y, 1, -v * x, -v * y], v);
+  }
+
+  const h = solveLinearSystem(ata, atb);
+  const normalized: Matrix3 = [h[0], h[1], h[2], h[3], h[4], h[5], h[6], h[7], 1];
+  const result = multiply3(multiply3(invertMatrix3(dstNorm), normalized), srcNorm);
+  const scale = result[8];
+
+  return result.map((v) => v / scale) as Matrix3;
+}
+
+/**
+ * Computes the per-point residual of a pixel→mm homography.
+ *
+ * @param homography - Pixel to millimetre homography
+ * @param points - Calibration point pairs
+ * @returns Distance in millimetres between predicted and actual arm position for each point
+ */
+export function computeResiduals(homography: Matrix3, points: CalibrationPoint[]): number[] {
+  return points.map((p) => {
+    const predicted = applyHomography(homography, p.pixel);
+    return Math.hypot(predicted.x - p.arm.x, predicted.y - p.arm.y);
+  });
+}
+
+/**
+ * Fits a calibration model from point pairs.
+ *
+ * @param points - Calibration point pairs (at least four)
+ * @param frame - Size of the frame the pixel coordinates refer to
+ * @returns Calibration model ready to persist
+ * @throws Error if the points are insufficient or degenerate
+ */
+export function createCalibrationModel(
+  points: CalibrationPoint[],
+  frame: FrameSize
+): CalibrationModel {
+  const homography = fitHomography(
+    points.map((p) => p.pixel),
+    points.map((p) => p.arm)
+  );
+  const residuals = computeResiduals(homography, points);
+  const rmsError = Math.sqrt(
+    residuals.reduce((sum, r) => sum + r * r, 0) / residuals.length
+  );
+
+  return {
+    version: 1,
+    frameWidth: frame.width,
+    frameHeight: frame.height,
+    points,
+    homography,
+    inverseHomography: invertMatrix3(homography),
+    rmsError,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Rescales a pixel from an arbitrary frame size to the model's frame size.
+ *
+ * @param model - Calibration model
+ * @param pixel - Pixel position
+ * @param frame - Size of the frame the pixel refers to (defaults to the model's)
+ * @returns Pixel position in the model's frame
+ */
+function toModelPixel(model: CalibrationModel, pixel: Point, frame?: FrameSize): Point {
+  if (!frame) {
+    return pixel;
+  }
+  return {
+    x: (pixel.x * model.frameWidth) / frame.width,
+    y: (pixel.y * model.frameHeight) / frame.height,
+  };
+}
+
+/**
+ * Converts a frame pixel to an arm position.
+ *
+ * @param model - Calibration model
+ * @param pixel - Pixel position
+ * @param frame - Size of the frame the pixel refers to (defaults to the model's)
+ * @returns Arm position in millimetres
+ */
+export function pixelToMm(model: CalibrationModel, pixel: Point, frame?: FrameSize): Point {
+  return applyHomography(model.homography, toModelPixel(model, pixel, frame));
+}
+
+/**
+ * Converts an arm position to a frame pixel.
+ *
+ * @param model - Calibration model
+ * @param arm - Arm position in millimetres
+ * @param frame - Size of the target frame (defaults to the model's)
+ * @returns Pixel position
+ */
+export function mmToPixel(model: CalibrationModel, arm: Point, frame?: FrameSize): Point {
+  const pixel = applyHomography(model.inverseHomography, arm);
+  if (!frame) {
+    return pixel;
+  }
+  return {
+    x: (pixel.x * frame.width) / model.frameWidth,
+    y: (pixel.y * frame.height) / model.frameHeight,
+  };
+}
+
+/**
+ * Computes the convex hull of a set of points (Andrew's monotone chain).
+ *
+ * @param points - Input points
+ * @returns Hull vertices in counter-clockwise order
+ */
+export function convexHull(points: Point[]): Point[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) {
+    return sorted;
+  }
+
+  const cross = (o: Point, a: Point, b: Point) =>
+    (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+  const lower: Point[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) {
+      lower.pop();
+    }
+    lower.push(p);
+  }
+
+  const upper: Point[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) {
+      upper.pop();
+    }
+    upper.push(p);
+  }
+
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
+
+/**
+ * Checks whether a point lies inside a polygon.
+ * Uses the even-odd ray casting rule; points exactly on an edge may go either way.
+ *
+ * @param polygon - Polygon vertices
+ * @param p - Point to test
+ * @returns True if the point is inside the polygon
+ */
+export function isPointInPolygon(polygon: Point[], p: Point): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Computes the distance from a point to a line segment.
+ *
+ * @param p - Point
+ * @param a - Segment start
+ * @param b - Segment end
+ * @returns Euclidean distance
+ */
+export function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+/**
+ * Checks whether a frame pixel lies within the area covered by the calibration points.
+ * Positions outside this hull are extrapolated and unreliable.
+ * A tolerance of 2% of the frame diagonal is allowed around the hull edges
+ * so the calibration points themselves are always accepted.
+ *
+ * @param model - Calibration model
+ * @param pixel - Pixel position
+ * @param frame - Size of the frame the pixel refers to (defaults to the model's)
+ * @returns True if the pixel is inside the calibrated area
+ */
+export function isInCalibratedArea(model: CalibrationModel, pixel: Point, frame?: FrameSize): boolean {
+  const hull = convexHull(model.points.map((p) => p.pixel));
+  const p = toModelPixel(model, pixel, frame);
+
+  if (isPointInPolygon(hull, p)) {
+    return true;
+  }
+
+  const tolerance = 0.02 * Math.hypot(model.frameWidth, model.frameHeight);
+  return hull.some((a, i) => distanceToSegment(p, a, hull[(i + 1) % hull.length]) <= tolerance);
+}
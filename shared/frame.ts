@@ -0,0 +1,111 @@
+/**
+ * Camera frame capture options.
+ * The renderer crops, scales and encodes frames on a canvas; the main process
+ * requests them over IPC and reports the resulting geometry to MCP clients.
+ * Shared by the main process and the renderer; contains no Electron or DOM code.
+ */
+
+import type { FrameSize } from './calibration';
+import type { ScreenRegion } from './screen';
+
+/** Rectangle in camera frame pixels */
+export interface FrameRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Encoding of a captured frame */
+export type FrameFormat = 'jpeg' | 'png';
+
+/**
+ * What a frame shows: the whole camera frame, or the phone screen
+ * warped flat through the configured screen region
+ */
+export type FrameView = 'camera' | 'screen';
+
+/** How a frame is cropped, scaled and encoded */
+export interface FrameCaptureOptions {
+  /** Camera frame or flattened screen (default: screen when a screen region is set) */
+  view?: FrameView;
+  /** Region of the full (rotated or flattened) frame to keep (default: whole frame) */
+  crop?: FrameRegion;
+  /** Longest side of the output in pixels; larger frames are scaled down */
+  maxDimension?: number;
+  /** JPEG quality, 1-100 (default: 85) */
+  quality?: number;
+  /** Output encoding (default: jpeg) */
+  format?: FrameFormat;
+}
+
+/** Encoded frame and its geometry */
+export interface CapturedFrame {
+  /** Base64 image data (without data URL prefix) */
+  data: string;
+  mimeType: 'image/jpeg' | 'image/png';
+  /** What the frame shows (crop and scale refer to this view) */
+  view: FrameView;
+  /** Output size in pixels */
+  width: number;
+  height: number;
+  /** Region of the full frame the output shows (crop clamped to the frame) */
+  crop: FrameRegion;
+  /** Output pixels per full-frame pixel (1 unless scaled down) */
+  scale: number;
+}
+
+/** Frame request sent from the main process to the renderer */
+export interface FrameCaptureRequest {
+  /** Matches the response to the request */
+  id: number;
+  options?: FrameCaptureOptions;
+  /** Base64 JPEG to process instead of the live video */
+  source?: string;
+  /** Screen region to flatten the frame through before cropping (camera view if omitted) */
+  screen?: ScreenRegion;
+}
+
+/** JPEG quality used when none is requested */
+export const DEFAULT_JPEG_QUALITY = 85;
+
+/**
+ * Clamps a crop rectangle to the frame, rounding to whole pixels.
+ *
+ * @param frame - Full frame size
+ * @param crop - Requested region (default: whole frame)
+ * @returns Region inside the frame, at least 1x1
+ */
+export function resolveCrop(frame: FrameSize, crop?: FrameRegion): FrameRegion {
+  if (!crop) {
+    return { x: 0, y: 0, width: frame.width, height: frame.height };
+  }
+  const x = Math.max(0, Math.min(Math.round(crop.x), frame.width - 1));
+  const y = Math.max(0, Math.min(Math.round(crop.y), frame.height - 1));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(Math.round(crop.width), frame.width - x)),
+    height: Math.max(1, Math.min(Math.round(crop.height), frame.height - y)),
+  };
+}
+
+/**
+ * Computes the output size of a region scaled down to a maximum dimension.
+ *
+ * @param region - Cropped region
+ * @param maxDimension - Longest output side (default: no scaling)
+ * @returns Output size and scale factor (never above 1)
+ */
+export function resolveOutputSize(
+  region: FrameSize,
+  maxDimension?: number
+): FrameSize & { scale: number } {
+  const longest = Math.max(region.width, region.height);
+  const scale = maxDimension && longest > maxDimension ? maxDimension / longest : 1;
+  return {
+    width: Math.max(1, Math.round(region.width * scale)),
+    height: Math.max(1, Math.round(region.height * scale)),
+    scale,
+  };
+}
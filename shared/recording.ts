@@ -0,0 +1,68 @@
+/**
+ * Session video recording types.
+ * The renderer records the camera stream with MediaRecorder and streams the
+ * chunks to the main process, which writes the video and a sidecar JSONL file
+ * of timestamped events (arm actions, MCP calls) to line up with the video.
+ * Shared by the main process and the renderer; contains no Electron or DOM code.
+ */
+
+import type { ArmAction } from './arm';
+
+/** Who started a recording */
+export type RecordingSource = 'ui' | 'mcp';
+
+/** Active recording */
+export interface SessionRecording {
+  /** Recording ID, also the base of the file names */
+  id: string;
+  source: RecordingSource;
+  /** MCP session that started the recording (MCP recordings only) */
+  sessionId?: string;
+  /** When the video started (ms since epoch) */
+  startedAt: number;
+  /** Absolute path of the video file */
+  videoFile: string;
+  /** Absolute path of the sidecar event file */
+  eventsFile: string;
+}
+
+/** Finished recording */
+export interface SessionRecordingSummary extends SessionRecording {
+  /** When the video stopped (ms since epoch) */
+  stoppedAt: number;
+  durationMs: number;
+  /** Video size in bytes */
+  bytes: number;
+  /** Events written to the sidecar file */
+  events: number;
+}
+
+/** MCP log entry as written to the sidecar file */
+export interface RecordingLogEntry {
+  type: 'request' | 'response' | 'error' | 'info';
+  action: string;
+  detail: string;
+  sessionId?: string;
+  data?: unknown;
+}
+
+/** Line of the sidecar event file */
+export type RecordingEvent = {
+  /** Offset from the start of the video (ms) */
+  t: number;
+  /** ISO timestamp */
+  time: string;
+} & (
+  | { type: 'start'; source: RecordingSource; sessionId?: string }
+  | { type: 'arm-action'; action: ArmAction }
+  | { type: 'mcp-log'; log: RecordingLogEntry }
+  | { type: 'stop' }
+);
+
+/** Recorder start/stop request sent from the main process to the renderer */
+export interface RecordingControlRequest {
+  /** Matches the response to the request */
+  id: number;
+  action: 'start' | 'stop';
+  recordingId: string;
+}
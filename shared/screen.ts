@@ -0,0 +1,307 @@
+/**
+ * Phone screen region in the camera frame.
+ * Four corner points outline the phone screen in the captured (rotated)
+ * frame. A homography warps that quad into a flat image with the screen's
+ * aspect ratio, so pixels of the warped image map linearly to the screen.
+ * Shared by the main process and the renderer; contains no Electron or DOM code.
+ */
+
+import { applyHomography, fitHomography, FrameSize, Matrix3, Point } from './calibration';
+
+/** Screen corners in frame pixels: top-left, top-right, bottom-right, bottom-left */
+export type ScreenCorners = [Point, Point, Point, Point];
+
+/** Persisted screen region */
+export interface ScreenRegion {
+  version: 1;
+  /** Frame size the corner coordinates refer to */
+  frameWidth: number;
+  frameHeight: number;
+  corners: ScreenCorners;
+  /** Size of the warped screen image in pixels */
+  outputWidth: number;
+  outputHeight: number;
+  /** Homography mapping screen image pixels to frame pixels */
+  screenToFrame: Matrix3;
+  /** Homography mapping frame pixels to screen image pixels */
+  frameToScreen: Matrix3;
+  /** ISO timestamp of when the region was created */
+  createdAt: string;
+}
+
+/** Screen detection and warping configuration */
+export const SCREEN_CONFIG = {
+  /** Shortest allowed screen edge in frame pixels */
+  minEdgeLength: 32,
+  /** Smallest bright area accepted by auto-detection, as a share of the sample */
+  minDetectedArea: 0.05,
+} as const;
+
+/**
+ * Orders four points as top-left, top-right, bottom-right, bottom-left.
+ * Works for quads rotated less than 45 degrees, as a phone under the camera is.
+ *
+ * @param points - Four corner points in any order
+ * @returns Ordered corners
+ * @throws Error if not exactly four distinct corners are given
+ */
+export function orderCorners(points: Point[]): ScreenCorners {
+  if (points.length !== 4) {
+    throw new Error(`Four corner points are required, got ${points.length}`);
+  }
+  const bySum = [...points].sort((a, b) => a.x + a.y - (b.x + b.y));
+  const byDiff = [...points].sort((a, b) => a.x - a.y - (b.x - b.y));
+  const corners: ScreenCorners = [bySum[0], byDiff[3], bySum[3], byDiff[0]];
+  if (new Set(corners).size !== 4) {
+    throw new Error('Corner points do not form a quadrilateral');
+  }
+  return corners;
+}
+
+/**
+ * Checks that ordered corners form a convex quad.
+ */
+function isConvex(corners: ScreenCorners): boolean {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = corners[i];
+    const b = corners[(i + 1) % 4];
+    const c = corners[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (cross === 0) return false;
+    if (sign !== 0 && Math.sign(cross) !== sign) return false;
+    sign = Math.sign(cross);
+  }
+  return true;
+}
+
+/**
+ * Creates a screen region from four corner points.
+ * The warped image size is the average length of opposite edges,
+ * which keeps the screen's aspect ratio and roughly its resolution in the frame.
+ *
+ * @param points - Four corner points in frame pixels, in any order
+ * @param frame - Size of the frame the points refer to
+ * @returns Screen region with both homographies
+ * @throws Error if the points do not outline a usable convex quad
+ */
+export function createScreenRegion(points: Point[], frame: FrameSize): ScreenRegion {
+  const corners = orderCorners(points);
+  if (!isConvex(corners)) {
+    throw new Error('Corner points do not form a convex quadrilateral');
+  }
+
+  const [tl, tr, br, bl] = corners;
+  const edge = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+  const outputWidth = Math.round((edge(tl, tr) + edge(bl, br)) / 2);
+  const outputHeight = Math.round((edge(tl, bl) + edge(tr, br)) / 2);
+  if (Math.min(outputWidth, outputHeight) < SCREEN_CONFIG.minEdgeLength) {
+    throw new Error(`Screen region is too small (${outputWidth}x${outputHeight} px)`);
+  }
+
+  const screenCorners: Point[] = [
+    { x: 0, y: 0 },
+    { x: outputWidth, y: 0 },
+    { x: outputWidth, y: outputHeight },
+    { x: 0, y: outputHeight },
+  ];
+
+  return {
+    version: 1,
+    frameWidth: frame.width,
+    frameHeight: frame.height,
+    corners,
+    outputWidth,
+    outputHeight,
+    screenToFrame: fitHomography(screenCorners, corners),
+    frameToScreen: fitHomography(corners, screenCorners),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Converts a screen image pixel to a frame pixel.
+ *
+ * @param region - Screen region
+ * @param screen - Pixel in the warped screen image
+ * @returns Pixel in the frame the region was defined on
+ */
+export function screenToFramePixel(region: ScreenRegion, screen: Point): Point {
+  return applyHomography(region.screenToFrame, screen);
+}
+
+/**
+ * Converts a frame pixel to a screen image pixel.
+ *
+ * @param region - Screen region
+ * @param pixel - Pixel in the frame the region was defined on
+ * @returns Pixel in the warped screen image (outside it if the pixel is off-screen)
+ */
+export function frameToScreenPixel(region: ScreenRegion, pixel: Point): Point {
+  return applyHomography(region.frameToScreen, pixel);
+}
+
+/**
+ * Warps the screen quad of an RGBA frame into a flat RGBA screen image
+ * with bilinear sampling. Pixels mapped outside the frame stay transparent.
+ *
+ * @param region - Screen region
+ * @param source - RGBA pixels of the full frame
+ * @param sourceSize - Size of the source frame (scaled from the region's frame if different)
+ * @param target - RGBA buffer of outputWidth x outputHeight pixels to fill
+ */
+export function warpScreen(
+  region: ScreenRegion,
+  source: Uint8ClampedArray,
+  sourceSize: FrameSize,
+  target: Uint8ClampedArray
+): void {
+  const { outputWidth, outputHeight } = region;
+  const h = region.screenToFrame;
+  const sx = sourceSize.width / region.frameWidth;
+  const sy = sourceSize.height / region.frameHeight;
+  const maxX = sourceSize.width - 1;
+  const maxY = sourceSize.height - 1;
+  const stride = sourceSize.width * 4;
+
+  for (let y = 0; y < outputHeight; y++) {
+    for (let x = 0; x < outputWidth; x++) {
+      // Sample at pixel centres
+      const u = x + 0.5;
+      const v = y + 0.5;
+      const w = h[6] * u + h[7] * v + h[8];
+      const fx = ((h[0] * u + h[1] * v + h[2]) / w) * sx - 0.5;
+      const fy = ((h[3] * u + h[4] * v + h[5]) / w) * sy - 0.5;
+      const o = (y * outputWidth + x) * 4;
+
+      if (fx < 0 || fy < 0 || fx > maxX || fy > maxY) {
+        target[o + 3] = 0;
+        continue;
+      }
+
+      const x0 = Math.floor(fx);
+      const y0 = Math.floor(fy);
+      const x1 = Math.min(x0 + 1, maxX);
+      const y1 = Math.min(y0 + 1, maxY);
+      const ax = fx - x0;
+      const ay = fy - y0;
+      const i00 = y0 * stride + x0 * 4;
+      const i10 = y0 * stride + x1 * 4;
+      const i01 = y1 * stride + x0 * 4;
+      const i11 = y1 * stride + x1 * 4;
+
+      for (let c = 0; c < 4; c++) {
+        const top = source[i00 + c] + (source[i10 + c] - source[i00 + c]) * ax;
+        const bottom = source[i01 + c] + (source[i11 + c] - source[i01 + c]) * ax;
+        target[o + c] = top + (bottom - top) * ay;
+      }
+    }
+  }
+}
+
+/**
+ * Otsu threshold of a grayscale histogram.
+ */
+function otsuThreshold(gray: Uint8Array): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < gray.length; i++) {
+    histogram[gray[i]]++;
+  }
+
+  let total = 0;
+  for (let t = 0; t < 256; t++) total += t * histogram[t];
+
+  let backgroundCount = 0;
+  let backgroundSum = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    backgroundCount += histogram[t];
+    if (backgroundCount === 0) continue;
+    const foregroundCount = gray.length - backgroundCount;
+    if (foregroundCount === 0) break;
+    backgroundSum += t * histogram[t];
+    const meanBackground = backgroundSum / backgroundCount;
+    const meanForeground = (total - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * (meanBackground - meanForeground) ** 2;
+    if (variance > best) {
+      best = variance;
+      threshold = t;
+    }
+  }
+  return threshold;
+}
+
+/**
+ * Finds the bright screen quad in a grayscale image.
+ * Thresholds the image (Otsu), keeps the largest connected bright area and
+ * takes its extreme points along both diagonals as the corners.
+ * Expects a lit screen on a darker background; run it on a downscaled frame.
+ *
+ * @param gray - Grayscale pixels, row by row
+ * @param size - Image size
+ * @returns Ordered corners in image pixels, or null if no large bright area is found
+ */
+export function detectScreenQuad(gray: Uint8Array, size: FrameSize): ScreenCorners | null {
+  const { width, height } = size;
+  const threshold = otsuThreshold(gray);
+  const labels = new Int32Array(width * height);
+  const queue = new Int32Array(width * height);
+  let bestLabel = 0;
+  let bestArea = 0;
+  let label = 0;
+
+  for (let start = 0; start < gray.length; start++) {
+    if (gray[start] <= threshold || labels[start] !== 0) continue;
+
+    // Flood fill one 4-connected bright area
+    label++;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    labels[start] = label;
+    while (head < tail) {
+      const i = queue[head++];
+      const x = i % width;
+      const neighbours = [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        i - width,
+        i + width,
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && n < gray.length && labels[n] === 0 && gray[n] > threshold) {
+          labels[n] = label;
+          queue[tail++] = n;
+        }
+      }
+    }
+
+    if (tail > bestArea) {
+      bestArea = tail;
+      bestLabel = label;
+    }
+  }
+
+  if (bestArea < SCREEN_CONFIG.minDetectedArea * gray.length) {
+    return null;
+  }
+
+  const extremes = { tl: 0, tr: 0, br: 0, bl: 0 };
+  let minSum = Infinity;
+  let maxSum = -Infinity;
+  let minDiff = Infinity;
+  let maxDiff = -Infinity;
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] !== bestLabel) continue;
+    const x = i % width;
+    const y = (i - x) / width;
+    if (x + y < minSum) { minSum = x + y; extremes.tl = i; }
+    if (x + y > maxSum) { maxSum = x + y; extremes.br = i; }
+    if (x - y > maxDiff) { maxDiff = x - y; extremes.tr = i; }
+    if (x - y < minDiff) { minDiff = x - y; extremes.bl = i; }
+  }
+
+  const toPoint = (i: number): Point => ({ x: i % width, y: Math.floor(i / width) });
+  return [toPoint(extremes.tl), toPoint(extremes.tr), toPoint(extremes.br), toPoint(extremes.bl)];
+}
@@ -0,0 +1,373 @@
+/**
+ * Auto-operation sequence types and step expansion.
+ * Sequences are stored as versioned JSON files in the user data directory,
+ * loaded, validated and run by the main process.
+ * Parameterized steps (typed text, loops) are expanded into plain steps and
+ * screen checkpoints against caller-supplied values right before a run.
+ */
+
+import type { FrameRegion } from './frame';
+
+/** Current sequence file format version */
+export const SEQUENCE_FORMAT_VERSION = 1;
+
+/** Fragment ID prepended to sequences unless they set skipPrefix */
+export const PREFIX_FRAGMENT_ID = 'prefix';
+
+/** Fragment ID appended to sequences unless they set skipSuffix */
+export const SUFFIX_FRAGMENT_ID = 'suffix';
+
+/** Represents a single step in the auto operation sequence */
+export interface AutoStep {
+  label: string;
+  x: number;
+  y: number;
+  depth: number;
+  /** Optional delay in ms after this step (default: 200ms) */
+  delayAfter?: number;
+  /** If set, performs a swipe from (x,y) to swipeTo coordinates instead of a click */
+  swipeTo?: { x: number; y: number };
+  /** Delay in ms before raising stylus after swipe (default: 50ms) */
+  swipeHoldDelay?: number;
+  /** If set, holds the stylus down for this many ms instead of a normal click */
+  longPressDuration?: number;
+  /** If set, performs a double tap with this many ms between the two taps */
+  doubleTapGap?: number;
+  /** If true, only moves to (x,y) without touching the screen */
+  moveOnly?: boolean;
+}
+
+/** Types the text of a parameter by tapping its characters on a keyboard map */
+export interface TypeTextStep {
+  label: string;
+  /** Text to type; may reference parameters as {{name}} */
+  typeText: string;
+  /** Keyboard file ID that maps characters to arm positions */
+  keyboard: string;
+  depth: number;
+  /** Delay in ms after each key except the last (default: 200ms) */
+  keyDelay?: number;
+  /** Optional delay in ms after the last key (default: 200ms) */
+  delayAfter?: number;
+}
+
+/** Repeats its steps once per item of a parameter (words, or characters otherwise) */
+export interface ForEachStep {
+  label: string;
+  /** Parameter to iterate over */
+  forEach: string;
+  /** Name the current item is bound to in templates; {{index}} holds its 1-based position */
+  as: string;
+  steps: SequenceStep[];
+}
+
+/** Waits until a region of the camera frame matches a stored reference frame */
+export interface WaitForMatchStep {
+  label: string;
+  waitForMatch: {
+    /** Reference frame file in the sequences/references directory */
+    reference: string;
+    /** Region compared in both frames (default: whole frame) */
+    region?: FrameRegion;
+    /** Maximum mean pixel difference, 0-1 (default: 0.05) */
+    threshold?: number;
+  };
+  /** Time in ms before the checkpoint fails (default: 10000ms) */
+  timeout?: number;
+  /** Optional delay in ms after this step (default: 200ms) */
+  delayAfter?: number;
+}
+
+/** Waits until the camera frame stops changing */
+export interface WaitForStableStep {
+  label: string;
+  waitForStable: {
+    /** Maximum mean pixel difference between consecutive frames, 0-1 (default: 0.01) */
+    threshold?: number;
+    /** Time in ms the screen must stay unchanged (default: 500ms) */
+    settle?: number;
+  };
+  /** Time in ms before the checkpoint fails (default: 10000ms) */
+  timeout?: number;
+  /** Optional delay in ms after this step (default: 200ms) */
+  delayAfter?: number;
+}
+
+/** Step that checks the screen instead of moving the arm */
+export type CheckpointStep = WaitForMatchStep | WaitForStableStep;
+
+/** Step as written in a sequence file */
+export type SequenceStep = AutoStep | TypeTextStep | ForEachStep | CheckpointStep;
+
+/** Step after expansion, as executed by the runner */
+export type RunStep = AutoStep | CheckpointStep;
+
+/** Input parameter kinds */
+export type SequenceParamType = 'string' | 'digits' | 'words';
+
+/** Input parameter declared by a sequence or fragment */
+export interface SequenceParam {
+  /** Name referenced in templates as {{name}} */
+  name: string;
+  type: SequenceParamType;
+  /** Name shown in the control panel */
+  label?: string;
+  /** Value used when the caller supplies none (words are space-separated) */
+  default?: string;
+  /** Required number of characters (string, digits) or words (words) */
+  length?: number;
+}
+
+/** Parameter values supplied when starting a run (words are space-separated) */
+export type SequenceParamValues = Record<string, string>;
+
+/** Character to arm position map */
+export type KeyboardMap = Record<string, { x: number; y: number }>;
+
+/** Runnable sequence as stored on disk */
+export interface SequenceFile {
+  version: typeof SEQUENCE_FORMAT_VERSION;
+  type: 'sequence';
+  /** Unique ID (used to select the sequence) */
+  id: string;
+  /** Name shown in the sequence dropdown */
+  name: string;
+  description?: string;
+  /** If true, the shared prefix fragment is not prepended */
+  skipPrefix?: boolean;
+  /** If true, the shared suffix fragment is not appended */
+  skipSuffix?: boolean;
+  params?: SequenceParam[];
+  steps: SequenceStep[];
+}
+
+/** Shared steps composed into sequences (the prefix and suffix) */
+export interface FragmentFile {
+  version: typeof SEQUENCE_FORMAT_VERSION;
+  type: 'fragment';
+  /** Fragment ID ('prefix' or 'suffix') */
+  id: string;
+  params?: SequenceParam[];
+  steps: SequenceStep[];
+}
+
+/** Keyboard layout used by typeText steps */
+export interface KeyboardFile {
+  version: typeof SEQUENCE_FORMAT_VERSION;
+  type: 'keyboard';
+  /** Keyboard ID referenced by typeText steps */
+  id: string;
+  keys: KeyboardMap;
+}
+
+/** Any sequence directory file */
+export type SequenceDirectoryFile = SequenceFile | FragmentFile | KeyboardFile;
+
+/** Sequence with the prefix and suffix already composed */
+export interface LoadedSequence {
+  id: string;
+  name: string;
+  description?: string;
+  /** File name in the sequences directory */
+  file: string;
+  /** Parameters of the sequence and its prefix and suffix */
+  params: SequenceParam[];
+  /** Keyboards used by typeText steps, keyed by ID */
+  keyboards: Record<string, KeyboardMap>;
+  /** Full step list; expand with expandSequence() before running */
+  steps: SequenceStep[];
+}
+
+/** Problem found while loading a sequence file */
+export interface SequenceLoadError {
+  /** File name in the sequences directory */
+  file: string;
+  message: string;
+}
+
+/** Allowed characters in a sequence ID (also used as the file name) */
+export const SEQUENCE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/** Result of loading the sequences directory */
+export interface SequenceLibrary {
+  sequences: LoadedSequence[];
+  errors: SequenceLoadError[];
+}
+
+/** State of a sequence run */
+export type SequenceRunStatus = 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+/** Debugger options for starting a run */
+export interface SequenceRunOptions {
+  /** Index of the first expanded step to run (default: 0) */
+  startAt?: number;
+  /** Expanded step indices to pause before */
+  breakpoints?: number[];
+  /** If true, pauses before the first step */
+  paused?: boolean;
+}
+
+/** Progress of the active sequence run, sent after every step */
+export interface SequenceRunProgress {
+  sequenceId: string;
+  name: string;
+  status: SequenceRunStatus;
+  totalSteps: number;
+  /** Number of steps finished so far in this run */
+  completedSteps: number;
+  /** Index of the step being run (or paused before), or of the last step run once finished */
+  stepIndex: number;
+  label: string;
+}
+
+/** Outcome of a single executed step */
+export interface SequenceStepResult {
+  index: number;
+  label: string;
+  status: 'completed' | 'failed';
+  error?: string;
+  /** Base64 JPEG of the offending frame when a checkpoint failed */
+  frame?: string;
+}
+
+/** Result of a finished sequence run */
+export interface SequenceRunSummary {
+  sequenceId: string;
+  name: string;
+  status: Exclude<SequenceRunStatus, 'running' | 'paused'>;
+  totalSteps: number;
+  completedSteps: number;
+  /** Executed steps in order; the last one carries the error if the run failed */
+  steps: SequenceStepResult[];
+  durationMs: number;
+}
+
+/** Matches {{name}} template references */
+const TEMPLATE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Splits a parameter value into forEach items: words for word lists, characters otherwise.
+ */
+function splitParamValue(param: SequenceParam | undefined, value: string): string[] {
+  if (param?.type === 'words') {
+    return value.split(/\s+/).filter((word) => word.length > 0);
+  }
+  return Array.from(value);
+}
+
+/**
+ * Fills in defaults and validates parameter values against their declarations.
+ *
+ * @param params - Declared parameters
+ * @param values - Caller-supplied values
+ * @returns Complete values for every declared parameter
+ * @throws Error naming the first missing, unknown or malformed parameter
+ */
+export function resolveParamValues(
+  params: SequenceParam[],
+  values: SequenceParamValues = {}
+): SequenceParamValues {
+  const unknown = Object.keys(values).find((name) => !params.some((p) => p.name === name));
+  if (unknown) {
+    throw new Error(`Unknown parameter "${unknown}"`);
+  }
+
+  const resolved: SequenceParamValues = {};
+  for (const param of params) {
+    const value = (values[param.name] ?? param.default ?? '').trim();
+    if (!value) {
+      throw new Error(`Parameter "${param.name}" is required`);
+    }
+    if (param.type === 'digits' && !/^\d+$/.test(value)) {
+      throw new Error(`Parameter "${param.name}" must contain digits only`);
+    }
+    const length = splitParamValue(param, value).length;
+    if (param.length !== undefined && length !== param.length) {
+      const unit = param.type === 'words' ? 'words' : 'characters';
+      throw new Error(`Parameter "${param.name}" must have ${param.length} ${unit} (got ${length})`);
+    }
+    resolved[param.name] = value;
+  }
+  return resolved;
+}
+
+/**
+ * Replaces {{name}} references with their values.
+ */
+function renderTemplate(template: string, vars: SequenceParamValues, stepLabel: string): string {
+  return template.replace(TEMPLATE_PATTERN, (_match, name: string) => {
+    if (!(name in vars)) {
+      throw new Error(`Unknown parameter "{{${name}}}" in step "${stepLabel}"`);
+    }
+    return vars[name];
+  });
+}
+
+/**
+ * Expands steps against template variables, recursing into loops.
+ */
+function expandSteps(
+  steps: SequenceStep[],
+  vars: SequenceParamValues,
+  params: SequenceParam[],
+  keyboards: Record<string, KeyboardMap>
+): RunStep[] {
+  const expanded: RunStep[] = [];
+
+  for (const step of steps) {
+    if ('forEach' in step) {
+      // The loop label describes the iterations and may use the loop variables itself
+      if (!(step.forEach in vars)) {
+        throw new Error(`Unknown parameter "${step.forEach}" in step "${step.label}"`);
+      }
+      const param = params.find((p) => p.name === step.forEach);
+      splitParamValue(param, vars[step.forEach]).forEach((item, index) => {
+        const loopVars = { ...vars, [step.as]: item, index: String(index + 1) };
+        expanded.push(...expandSteps(step.steps, loopVars, params, keyboards));
+      });
+      continue;
+    }
+
+    const label = renderTemplate(step.label, vars, step.label);
+
+    if ('typeText' in step) {
+      const keyboard = keyboards[step.keyboard];
+      if (!keyboard) {
+        throw new Error(`Keyboard "${step.keyboard}" not found in step "${label}"`);
+      }
+      const chars = Array.from(renderTemplate(step.typeText, vars, label));
+      chars.forEach((char, index) => {
+        const key = keyboard[char] ?? keyboard[char.toLowerCase()];
+        if (!key) {
+          throw new Error(`Key "${char}" is not on keyboard "${step.keyboard}" (step "${label}")`);
+        }
+        const isLast = index === chars.length - 1;
+        expanded.push({
+          label: `${label} (${char})`,
+          x: key.x,
+          y: key.y,
+          depth: step.depth,
+          delayAfter: isLast ? step.delayAfter : step.keyDelay,
+        });
+      });
+      continue;
+    }
+
+    expanded.push({ ...step, label });
+  }
+
+  return expanded;
+}
+
+/**
+ * Expands a loaded sequence into plain steps for the given parameter values.
+ *
+ * @param sequence - Loaded sequence
+ * @param values - Caller-supplied parameter values (defaults fill the rest)
+ * @returns Steps ready to run
+ * @throws Error if a value is invalid, a template is unknown or a key is missing
+ */
+export function expandSequence(sequence: LoadedSequence, values?: SequenceParamValues): RunStep[] {
+  const resolved = resolveParamValues(sequence.params, values);
+  return expandSteps(sequence.steps, resolved, sequence.params, sequence.keyboards);
+}
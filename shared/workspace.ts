@@ -0,0 +1,186 @@
+/**
+ * Arm workspace limits.
+ * Describes the gantry travel, the deepest allowed stylus press and regions
+ * the stylus must never enter (e.g. phone bezel or camera bump).
+ * Pure geometry with no Electron or DOM dependencies, so the main-process
+ * driver and the renderer share one implementation.
+ */
+
+import { isPointInPolygon, Point } from './calibration';
+
+/** Axis-aligned forbidden rectangle in arm millimetres */
+export interface RectZone {
+  kind: 'rect';
+  /** Human-readable name used in rejection messages */
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Forbidden polygon in arm millimetres */
+export interface PolygonZone {
+  kind: 'polygon';
+  /** Human-readable name used in rejection messages */
+  name: string;
+  points: Point[];
+}
+
+/** Region the stylus must never enter */
+export type NoGoZone = RectZone | PolygonZone;
+
+/** Workspace limits enforced on every motion */
+export interface WorkspaceLimits {
+  version: 1;
+  /** Maximum X travel in millimetres */
+  maxX: number;
+  /** Maximum Y travel in millimetres */
+  maxY: number;
+  /** Maximum Z-axis press depth in millimetres */
+  maxZ: number;
+  /** Forbidden regions */
+  zones: NoGoZone[];
+}
+
+/** Limits used when no workspace file is stored */
+export const DEFAULT_WORKSPACE_LIMITS: WorkspaceLimits = {
+  version: 1,
+  maxX: 100,
+  maxY: 150,
+  maxZ: 15,
+  zones: [],
+};
+
+/**
+ * Gets the outline of a zone as a polygon.
+ *
+ * @param zone - No-go zone
+ * @returns Polygon vertices in millimetres
+ */
+export function zoneToPolygon(zone: NoGoZone): Point[] {
+  if (zone.kind === 'polygon') {
+    return zone.points;
+  }
+  return [
+    { x: zone.x, y: zone.y },
+    { x: zone.x + zone.width, y: zone.y },
+    { x: zone.x + zone.width, y: zone.y + zone.height },
+    { x: zone.x, y: zone.y + zone.height },
+  ];
+}
+
+/**
+ * Checks whether a point lies inside a zone (boundary included for rectangles).
+ */
+function isPointInZone(zone: NoGoZone, p: Point): boolean {
+  if (zone.kind === 'rect') {
+    return (
+      p.x >= zone.x &&
+      p.x <= zone.x + zone.width &&
+      p.y >= zone.y &&
+      p.y <= zone.y + zone.height
+    );
+  }
+  return isPointInPolygon(zone.points, p);
+}
+
+/**
+ * Signed area of the triangle (a, b, c); the sign gives the turn direction.
+ */
+function cross(a: Point, b: Point, c: Point): number {
+  return (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+}
+
+/**
+ * Checks whether two line segments intersect (including touching).
+ */
+function segmentsIntersect(a: Point, b: Point, c: Point, d: Point): boolean {
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+    return true;
+  }
+
+  const onSegment = (p: Point, q: Point, r: Point) =>
+    Math.min(p.x, q.x) <= r.x && r.x <= Math.max(p.x, q.x) &&
+    Math.min(p.y, q.y) <= r.y && r.y <= Math.max(p.y, q.y);
+
+  return (
+    (d1 === 0 && onSegment(c, d, a)) ||
+    (d2 === 0 && onSegment(c, d, b)) ||
+    (d3 === 0 && onSegment(a, b, c)) ||
+    (d4 === 0 && onSegment(a, b, d))
+  );
+}
+
+/**
+ * Checks whether a segment touches a zone (either end inside or crossing an edge).
+ */
+function isSegmentInZone(zone: NoGoZone, a: Point, b: Point): boolean {
+  if (isPointInZone(zone, a) || isPointInZone(zone, b)) {
+    return true;
+  }
+  const polygon = zoneToPolygon(zone);
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    if (segmentsIntersect(a, b, polygon[j], polygon[i])) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Checks a stylus position against the travel limits and no-go zones.
+ *
+ * @param limits - Workspace limits
+ * @param p - Position in millimetres
+ * @returns Rejection message, or null if the position is allowed
+ */
+export function checkPosition(limits: WorkspaceLimits, p: Point): string | null {
+  if (p.x < 0 || p.y < 0 || p.x > limits.maxX || p.y > limits.maxY) {
+    return `Position (${p.x}, ${p.y}) is outside the workspace (X 0-${limits.maxX}, Y 0-${limits.maxY} mm).`;
+  }
+  const zone = limits.zones.find((z) => isPointInZone(z, p));
+  if (zone) {
+    return `Position (${p.x}, ${p.y}) is inside no-go zone "${zone.name}".`;
+  }
+  return null;
+}
+
+/**
+ * Checks a stylus-down path (e.g. a swipe) against the travel limits and no-go zones.
+ *
+ * @param limits - Workspace limits
+ * @param from - Start position in millimetres
+ * @param to - End position in millimetres
+ * @returns Rejection message, or null if the whole path is allowed
+ */
+export function checkPath(limits: WorkspaceLimits, from: Point, to: Point): string | null {
+  const endpointError = checkPosition(limits, from) ?? checkPosition(limits, to);
+  if (endpointError) {
+    return endpointError;
+  }
+  const zone = limits.zones.find((z) => isSegmentInZone(z, from, to));
+  if (zone) {
+    return `Path from (${from.x}, ${from.y}) to (${to.x}, ${to.y}) crosses no-go zone "${zone.name}".`;
+  }
+  return null;
+}
+
+/**
+ * Checks a Z-axis press depth against the maximum allowed depth.
+ *
+ * @param limits - Workspace limits
+ * @param z - Z-axis depth in millimetres
+ * @returns Rejection message, or null if the depth is allowed
+ */
+export function checkDepth(limits: WorkspaceLimits, z: number): string | null {
+  if (z > limits.maxZ) {
+    return `Depth Z${z} exceeds the maximum allowed depth Z${limits.maxZ}.`;
+  }
+  return null;
+}
@@ -0,0 +1,292 @@
+import { useState, useRef, useEffect } from 'react';
+import {
+  createCalibrationModel,
+  computeResiduals,
+  mmToPixel,
+  CalibrationModel,
+  CalibrationPoint,
+  FrameSize,
+  MIN_CALIBRATION_POINTS,
+} from '../../shared/calibration';
+import { ARM_CONTROLLER_CONFIG } from '../config/armController';
+import { useArmState, getArmErrorMessage } from '../hooks/useArmState';
+import './CalibrationWizard.css';
+
+type WizardPhase = 'setup' | 'moving' | 'awaitingClick' | 'review' | 'saving';
+
+interface CalibrationWizardProps {
+  /** Size of the captured (rotated) frame */
+  frameSize: FrameSize | null;
+  /** Called when the wizard is closed */
+  onClose: () => void;
+}
+
+/**
+ * Guided camera-to-arm calibration.
+ * Moves the arm to each target and lowers the stylus to hover height,
+ * asks the operator to click the stylus tip in the live video,
+ * then fits and previews the transform with per-point residuals before saving.
+ * Rendered as an overlay inside the camera viewport; the SVG view box matches
+ * the captured frame so clicks and markers use frame pixel coordinates directly.
+ */
+function CalibrationWizard({ frameSize, onClose }: CalibrationWizardProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const armState = useArmState();
+  const isArmReady = armState.isConnected && armState.isReady;
+  const [phase, setPhase] = useState<WizardPhase>('setup');
+  const [hoverDepth, setHoverDepth] = useState<number>(ARM_CONTROLLER_CONFIG.defaultCalibrationHoverDepth);
+  const [targetIndex, setTargetIndex] = useState(0);
+  const [points, setPoints] = useState<CalibrationPoint[]>([]);
+  const [model, setModel] = useState<CalibrationModel | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const targets = ARM_CONTROLLER_CONFIG.calibrationTargets;
+  const target = targets[targetIndex];
+
+  /**
+   * Raises the stylus when the wizard unmounts mid-run.
+   */
+  useEffect(() => {
+    return () => {
+      window.electronAPI.armSetZ(ARM_CONTROLLER_CONFIG.zUp).catch(() => undefined);
+    };
+  }, []);
+
+  /**
+   * Moves the arm to a calibration target and lowers the stylus to hover height.
+   *
+   * @param index - Index into the calibration targets
+   */
+  const visitTarget = async (index: number) => {
+    if (!isArmReady) {
+      setError('机械臂未连接');
+      return;
+    }
+
+    setTargetIndex(index);
+    setPhase('moving');
+    setError(null);
+
+    try {
+      const { x, y } = targets[index];
+      await window.electronAPI.armSetZ(ARM_CONTROLLER_CONFIG.zUp);
+      await window.electronAPI.armMoveTo(x, y);
+      await new Promise(resolve => setTimeout(resolve, ARM_CONTROLLER_CONFIG.calibrationSettleDelay));
+      await window.electronAPI.armSetZ(hoverDepth);
+      setPhase('awaitingClick');
+    } catch (err) {
+      setError(getArmErrorMessage(err, 'Move failed'));
+      setPhase('setup');
+    }
+  };
+
+  /**
+   * Advances to the next target, or fits the model after the last one.
+   *
+   * @param collected - Points collected so far
+   * @param index - Index of the target just handled
+   */
+  const advance = async (collected: CalibrationPoint[], index: number) => {
+    if (index + 1 < targets.length) {
+      await visitTarget(index + 1);
+      return;
+    }
+
+    await window.electronAPI.armSetZ(ARM_CONTROLLER_CONFIG.zUp).catch(() => undefined);
+
+    if (!frameSize || collected.length < MIN_CALIBRATION_POINTS) {
+      setError(`至少需要 ${MIN_CALIBRATION_POINTS} 个点，当前 ${collected.length} 个`);
+      setPhase('setup');
+      return;
+    }
+
+    try {
+      setModel(createCalibrationModel(collected, frameSize));
+      setPhase('review');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fit failed');
+      setPhase('setup');
+    }
+  };
+
+  /**
+   * Starts (or restarts) the calibration run from the first target.
+   */
+  const handleStart = () => {
+    setPoints([]);
+    setModel(null);
+    visitTarget(0);
+  };
+
+  /**
+   * Records the clicked frame pixel for the current target.
+   * Converts the mouse position to frame pixels through the SVG coordinate system.
+   */
+  const handleOverlayClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (phase !== 'awaitingClick' || !svg || !matrix) return;
+
+    const cursor = svg.createSVGPoint();
+    cursor.x = event.clientX;
+    cursor.y = event.clientY;
+    const pixel = cursor.matrixTransform(matrix.inverse());
+
+    const collected = [
+      ...points,
+      { pixel: { x: Math.round(pixel.x), y: Math.round(pixel.y) }, arm: { ...target } },
+    ];
+    setPoints(collected);
+    advance(collected, targetIndex);
+  };
+
+  /**
+   * Skips the current target (e.g. when the stylus tip is not visible).
+   */
+  const handleSkip = () => {
+    if (phase !== 'awaitingClick') return;
+    advance(points, targetIndex);
+  };
+
+  /**
+   * Persists the calibration through the main process and closes the wizard.
+   */
+  const handleSave = async () => {
+    if (!frameSize) return;
+
+    setPhase('saving');
+    try {
+      await window.electronAPI.saveCalibration(points, frameSize);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed');
+      setPhase('review');
+    }
+  };
+
+  const residuals = model ? computeResiduals(model.homography, points) : [];
+
+  return (
+    <div className="calibration-wizard">
+      {frameSize && (
+        <svg
+          ref={svgRef}
+          className={`overlay-frame ${phase === 'awaitingClick' ? 'interactive' : ''}`}
+          viewBox={`0 0 ${frameSize.width} ${frameSize.height}`}
+          preserveAspectRatio="xMidYMid meet"
+          onClick={handleOverlayClick}
+        >
+          {points.map((p, i) => (
+            <g key={i}>
+              <circle className="calibration-point" cx={p.pixel.x} cy={p.pixel.y} r={12} />
+              <text className="calibration-label" x={p.pixel.x + 16} y={p.pixel.y - 16}>
+                {i + 1}
+              </text>
+            </g>
+          ))}
+          {model && points.map((p, i) => {
+            const predicted = mmToPixel(model, p.arm);
+            return (
+              <g key={`predicted-${i}`}>
+                <line
+                  className="calibration-residual"
+                  x1={p.pixel.x}
+                  y1={p.pixel.y}
+                  x2={predicted.x}
+                  y2={predicted.y}
+                />
+                <circle className="calibration-predicted" cx={predicted.x} cy={predicted.y} r={8} />
+              </g>
+            );
+          })}
+        </svg>
+      )}
+
+      <div className="calibration-panel">
+        {phase === 'setup' && (
+          <>
+            <p>
+              机械臂将依次移动到 {targets.length} 个位置并将触控笔降至悬停高度，请在画面中点击笔尖位置。
+            </p>
+            <div className="calibration-actions">
+              <label>
+                <span>悬停深度</span>
+                <select
+                  value={hoverDepth}
+                  onChange={(e) => setHoverDepth(parseInt(e.target.value, 10))}
+                >
+                  {ARM_CONTROLLER_CONFIG.calibrationHoverDepthOptions.map(depth => (
+                    <option key={depth} value={depth}>Z{depth}</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                className="overlay-btn active"
+                onClick={handleStart}
+                disabled={!isArmReady || !frameSize}
+                title={isArmReady ? undefined : '请先连接机械臂'}
+              >
+                开始校准
+              </button>
+              <button className="overlay-btn" onClick={onClose}>取消</button>
+            </div>
+          </>
+        )}
+
+        {(phase === 'moving' || phase === 'awaitingClick') && (
+          <>
+            <p>
+              点 {targetIndex + 1}/{targets.length}：X{target.x} Y{target.y} —{' '}
+              {phase === 'moving' ? '移动中...' : '请点击画面中的笔尖位置'}
+            </p>
+            <div className="calibration-actions">
+              <button className="overlay-btn" onClick={handleSkip} disabled={phase !== 'awaitingClick'}>
+                跳过此点
+              </button>
+              <button className="overlay-btn" onClick={onClose}>取消</button>
+            </div>
+          </>
+        )}
+
+        {(phase === 'review' || phase === 'saving') && model && (
+          <>
+            <p>拟合完成：RMS 误差 {model.rmsError.toFixed(2)} mm</p>
+            <table className="calibration-residuals">
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>机械臂 (mm)</th>
+                  <th>像素</th>
+                  <th>误差 (mm)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {points.map((p, i) => (
+                  <tr key={i}>
+                    <td>{i + 1}</td>
+                    <td>{p.arm.x}, {p.arm.y}</td>
+                    <td>{p.pixel.x}, {p.pixel.y}</td>
+                    <td>{residuals[i].toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="calibration-actions">
+              <button className="overlay-btn active" onClick={handleSave} disabled={phase === 'saving'}>
+                {phase === 'saving' ? '保存中...' : '保存'}
+              </button>
+              <button className="overlay-btn" onClick={handleStart} disabled={!isArmReady || phase === 'saving'}>
+                重新校准
+              </button>
+              <button className="overlay-btn" onClick={onClose} disabled={phase === 'saving'}>取消</button>
+            </div>
+          </>
+        )}
+
+        {error && <p className="calibration-error">{error}</p>}
+      </div>
+    </div>
+  );
+}
+
+export default CalibrationWizard;
@@ -1,4 +1,20 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
+import CalibrationWizard from './CalibrationWizard';
+import SequencePreview from './SequencePreview';
+import ScreenRegionEditor from './ScreenRegionEditor';
+import { useCalibration } from '../hooks/useCalibration';
+import { useScreenRegion } from '../hooks/useScreenRegion';
+import { useRecording } from '../hooks/useRecording';
+import type { FrameSize } from '../../shared/calibration';
+import { warpScreen, ScreenRegion } from '../../shared/screen';
+import {
+  resolveCrop,
+  resolveOutputSize,
+  CapturedFrame,
+  FrameCaptureOptions,
+  FrameView,
+  DEFAULT_JPEG_QUALITY,
+} from '../../shared/frame';
 import './CameraPanel.css';
 
 interface VideoDevice {
@@ -6,22 +22,149 @@ interface VideoDevice {
   label: string;
 }
 
+/** MediaRecorder of the active recording and its pending chunk uploads */
+interface ActiveRecorder {
+  recorder: MediaRecorder;
+  /** Chunks are sent one after another so they reach the main process in order */
+  chunks: Promise<void>;
+}
+
+/** Recording formats, most preferred first */
+const RECORDING_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+/** Interval at which recorded chunks are sent to the main process (ms) */
+const RECORDING_TIMESLICE = 1000;
+
 function CameraPanel() {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const outputCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const screenCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const recorderRef = useRef<ActiveRecorder | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [devices, setDevices] = useState<VideoDevice[]>([]);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string>('');
   const [showCrosshair, setShowCrosshair] = useState(false);
   const [showGrid, setShowGrid] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [showScreenEditor, setShowScreenEditor] = useState(false);
+  const [frameSize, setFrameSize] = useState<FrameSize | null>(null);
+  const { calibration } = useCalibration();
+  const screenRegion = useScreenRegion();
+  const recording = useRecording();
+  const [recordingError, setRecordingError] = useState<string | null>(null);
 
   /**
-   * Captures the current video frame as a base64-encoded JPEG image.
-   * Rotates the frame 90 degrees clockwise to match the UI display (9:16 portrait).
-   * Used by MCP Server via IPC to get camera frames.
+   * Updates the captured frame size from the video dimensions.
+   * The frame is rotated 90 degrees, so width and height are swapped.
+   */
+  const handleVideoResize = () => {
+    const video = videoRef.current;
+    if (video && video.videoWidth > 0) {
+      setFrameSize({ width: video.videoHeight, height: video.videoWidth });
+    }
+  };
+
+  /**
+   * Crops, scales and encodes an image of the full rotated (or flattened) frame.
+   * Full-size frames are encoded straight from the source canvas.
+   */
+  const encodeFrame = useCallback((
+    source: HTMLCanvasElement | HTMLImageElement,
+    size: FrameSize,
+    options: FrameCaptureOptions = {},
+    view: FrameView = 'camera'
+  ): CapturedFrame | null => {
+    const crop = resolveCrop(size, options.crop);
+    const output = resolveOutputSize(crop, options.maxDimension);
+    const isFullFrame = crop.width === size.width && crop.height === size.height && output.scale === 1;
+
+    let target: HTMLCanvasElement;
+    if (isFullFrame && source instanceof HTMLCanvasElement) {
+      target = source;
+    } else {
+      target = outputCanvasRef.current ?? document.createElement('canvas');
+      outputCanvasRef.current = target;
+      const ctx = target.getContext('2d');
+      if (!ctx) {
+        console.warn('Failed to get canvas context');
+        return null;
+      }
+      target.width = output.width;
+      target.height = output.height;
+      ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, output.width, output.height);
+    }
+
+    const mimeType = options.format === 'png' ? 'image/png' : 'image/jpeg';
+    const quality = (options.quality ?? DEFAULT_JPEG_QUALITY) / 100;
+    const dataUrl = target.toDataURL(mimeType, quality);
+
+    return {
+      // Strip the data:image/...;base64, prefix
+      data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+      mimeType,
+      view,
+      width: output.width,
+      height: output.height,
+      crop,
+      scale: output.scale,
+    };
+  }, []);
+
+  /**
+   * Warps the screen quad of a rotated frame into a flat screen image.
+   *
+   * @returns Canvas holding the flattened screen, or null if the context is unavailable
+   */
+  const flattenScreen = useCallback((
+    source: HTMLCanvasElement,
+    region: ScreenRegion
+  ): HTMLCanvasElement | null => {
+    const target = screenCanvasRef.current ?? document.createElement('canvas');
+    screenCanvasRef.current = target;
+    const sourceCtx = source.getContext('2d');
+    const targetCtx = target.getContext('2d');
+    if (!sourceCtx || !targetCtx) {
+      console.warn('Failed to get canvas context');
+      return null;
+    }
+
+    target.width = region.outputWidth;
+    target.height = region.outputHeight;
+    const pixels = sourceCtx.getImageData(0, 0, source.width, source.height);
+    const screen = targetCtx.createImageData(region.outputWidth, region.outputHeight);
+    warpScreen(region, pixels.data, { width: source.width, height: source.height }, screen.data);
+    targetCtx.putImageData(screen, 0, 0);
+    return target;
+  }, []);
+
+  /**
+   * Encodes a full rotated frame held in a canvas, flattened through the
+   * screen region first when one is given.
+   */
+  const encodeView = useCallback((
+    canvas: HTMLCanvasElement,
+    options?: FrameCaptureOptions,
+    screen?: ScreenRegion
+  ): CapturedFrame | null => {
+    if (!screen) {
+      return encodeFrame(canvas, { width: canvas.width, height: canvas.height }, options);
+    }
+    const flattened = flattenScreen(canvas, screen);
+    return flattened
+      ? encodeFrame(flattened, { width: flattened.width, height: flattened.height }, options, 'screen')
+      : null;
+  }, [encodeFrame, flattenScreen]);
+
+  /**
+   * Draws the current video frame into the capture canvas,
+   * rotated 90 degrees clockwise to match the UI display (9:16 portrait).
+   *
+   * @returns The capture canvas, or null if the video is not ready
    */
-  const captureFrame = useCallback((): string | null => {
+  const drawRotatedFrame = useCallback((): HTMLCanvasElement | null => {
     const video = videoRef.current;
     const canvas = canvasRef.current;
 
@@ -57,13 +200,120 @@ function CameraPanel() {
     // Restore context state
     ctx.restore();
 
-    // Convert to base64 JPEG (without the data:image/jpeg;base64, prefix)
-    const dataUrl = canvas.toDataURL('image/jpeg', 0.85);
-    const base64 = dataUrl.replace(/^data:image\/jpeg;base64,/, '');
+    return canvas;
+  }, []);
+
+  /**
+   * Captures the current video frame, cropped, scaled and encoded as requested.
+   * Crop coordinates refer to the rotated frame, or to the flattened screen
+   * when a screen region is given.
+   * Used by MCP Server via IPC to get camera frames.
+   */
+  const captureFrame = useCallback((
+    options?: FrameCaptureOptions,
+    screen?: ScreenRegion
+  ): CapturedFrame | null => {
+    const canvas = drawRotatedFrame();
+    return canvas ? encodeView(canvas, options, screen) : null;
+  }, [drawRotatedFrame, encodeView]);
+
+  /**
+   * Crops, scales and encodes a frame captured earlier (base64 JPEG of the rotated frame).
+   * Frames are drawn into the capture canvas first when they have to be flattened,
+   * since the warp reads their pixels.
+   */
+  const processFrame = useCallback(async (
+    source: string,
+    options?: FrameCaptureOptions,
+    screen?: ScreenRegion
+  ): Promise<CapturedFrame | null> => {
+    const image = new Image();
+    image.src = `data:image/jpeg;base64,${source}`;
+    try {
+      await image.decode();
+    } catch (err) {
+      console.warn('Failed to decode frame:', err);
+      return null;
+    }
+    if (!screen) {
+      return encodeFrame(image, { width: image.naturalWidth, height: image.naturalHeight }, options);
+    }
+
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) {
+      console.warn('Failed to get canvas context');
+      return null;
+    }
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    ctx.drawImage(image, 0, 0);
+    return encodeView(canvas, options, screen);
+  }, [encodeFrame, encodeView]);
+
+  /**
+   * Starts recording the camera stream, sending a chunk to the main process every second.
+   *
+   * @throws Error if the camera is not streaming or a recorder is already running
+   */
+  const startRecorder = useCallback((recordingId: string) => {
+    const stream = streamRef.current;
+    if (!stream?.active) {
+      throw new Error('Camera is not ready');
+    }
+    if (recorderRef.current) {
+      throw new Error('Recorder is already running');
+    }
+
+    const mimeType = RECORDING_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    const active: ActiveRecorder = {
+      recorder: new MediaRecorder(stream, mimeType ? { mimeType } : undefined),
+      chunks: Promise.resolve(),
+    };
+    active.recorder.ondataavailable = (event) => {
+      if (event.data.size === 0) return;
+      active.chunks = active.chunks.then(async () => {
+        const data = new Uint8Array(await event.data.arrayBuffer());
+        window.electronAPI?.sendRecordingChunk?.(recordingId, data);
+      });
+    };
+    active.recorder.start(RECORDING_TIMESLICE);
+    recorderRef.current = active;
+  }, []);
 
-    return base64;
+  /**
+   * Stops the recorder and waits until its last chunk has been sent.
+   */
+  const stopRecorder = useCallback(async () => {
+    const active = recorderRef.current;
+    if (!active) return;
+    recorderRef.current = null;
+
+    if (active.recorder.state !== 'inactive') {
+      await new Promise<void>((resolve) => {
+        active.recorder.onstop = () => resolve();
+        active.recorder.stop();
+      });
+    }
+    await active.chunks;
   }, []);
 
+  /**
+   * Starts or stops the session recording from the UI.
+   */
+  const handleToggleRecording = async () => {
+    setRecordingError(null);
+    try {
+      if (recording) {
+        await window.electronAPI.stopRecording();
+      } else {
+        await window.electronAPI.startRecording();
+      }
+    } catch (err) {
+      setRecordingError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
   // Get list of video devices
   const getVideoDevices = useCallback(async () => {
     try {
@@ -179,9 +429,11 @@ function CameraPanel() {
     initCamera();
 
     // Set up IPC listener for frame capture requests from MCP Server
-    const unsubscribe = window.electronAPI?.onCaptureFrameRequest?.(() => {
-      const frame = captureFrame();
-      window.electronAPI?.sendCaptureFrameResponse?.(frame);
+    const unsubscribe = window.electronAPI?.onCaptureFrameRequest?.(async (request) => {
+      const frame = request.source
+        ? await processFrame(request.source, request.options, request.screen)
+        : captureFrame(request.options, request.screen);
+      window.electronAPI?.sendCaptureFrameResponse?.(request.id, frame);
     });
 
     // Cleanup on unmount
@@ -192,7 +444,29 @@ function CameraPanel() {
       unsubscribe?.();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [captureFrame]);
+  }, [captureFrame, processFrame]);
+
+  // Start and stop the recorder when the main process asks (UI toggle or MCP tools)
+  useEffect(() => {
+    const unsubscribe = window.electronAPI?.onRecordingControlRequest?.(async (request) => {
+      try {
+        if (request.action === 'start') {
+          startRecorder(request.recordingId);
+        } else {
+          await stopRecorder();
+        }
+        window.electronAPI?.sendRecordingControlResponse?.(request.id, null);
+      } catch (err) {
+        window.electronAPI?.sendRecordingControlResponse?.(
+          request.id,
+          err instanceof Error ? err.message : String(err)
+        );
+      }
+    });
+    return () => {
+      unsubscribe?.();
+    };
+  }, [startRecorder, stopRecorder]);
 
   // Handle device selection change
   const handleDeviceChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
@@ -211,6 +485,8 @@ function CameraPanel() {
             value={selectedDeviceId}
             onChange={handleDeviceChange}
             className="device-select"
+            disabled={recording !== null}
+            title={recording ? '录像时无法切换摄像头' : undefined}
           >
             {devices.map((device) => (
               <option key={device.deviceId} value={device.deviceId}>
@@ -235,10 +511,31 @@ function CameraPanel() {
               autoPlay
               playsInline
               muted
+              onLoadedMetadata={handleVideoResize}
+              onResize={handleVideoResize}
             />
           )}
           {showCrosshair && <div className="overlay-crosshair" />}
           {showGrid && <div className="overlay-grid" />}
+          {showCalibration && (
+            <CalibrationWizard
+              frameSize={frameSize}
+              onClose={() => setShowCalibration(false)}
+            />
+          )}
+          {showPreview && (
+            <SequencePreview
+              frameSize={frameSize}
+              onClose={() => setShowPreview(false)}
+            />
+          )}
+          {showScreenEditor && (
+            <ScreenRegionEditor
+              frameSize={frameSize}
+              captureFrame={drawRotatedFrame}
+              onClose={() => setShowScreenEditor(false)}
+            />
+          )}
         </div>
       </div>
 
@@ -255,6 +552,53 @@ function CameraPanel() {
         >
           网格
         </button>
+        <button
+          className={`overlay-btn ${showCalibration ? 'active' : ''}`}
+          onClick={() => {
+            setShowCalibration(!showCalibration);
+            setShowPreview(false);
+            setShowScreenEditor(false);
+          }}
+        >
+          校准
+        </button>
+        <button
+          className={`overlay-btn ${showPreview ? 'active' : ''}`}
+          onClick={() => {
+            setShowPreview(!showPreview);
+            setShowCalibration(false);
+            setShowScreenEditor(false);
+          }}
+          title="在画面中显示序列的点击位置和滑动轨迹，不移动机械臂"
+        >
+          预演
+        </button>
+        <button
+          className={`overlay-btn ${showScreenEditor ? 'active' : ''}`}
+          onClick={() => {
+            setShowScreenEditor(!showScreenEditor);
+            setShowCalibration(false);
+            setShowPreview(false);
+          }}
+          title="标出手机屏幕的四个角，返回给 MCP 客户端的画面将被校正为正视屏幕"
+        >
+          屏幕
+        </button>
+        <button
+          className={`overlay-btn ${recording ? 'recording' : ''}`}
+          onClick={handleToggleRecording}
+          title={recording ? recording.videoFile : '录制摄像头画面，机械臂动作和 MCP 调用的时间戳写入同名 .events.jsonl 文件'}
+        >
+          {recording ? '停止录像' : '录像'}
+        </button>
+        <span className="overlay-status">
+          {calibration
+            ? `已校准 · ${calibration.points.length} 点 · RMS ${calibration.rmsError.toFixed(2)}mm`
+            : '未校准'}
+          {screenRegion && ` · 屏幕 ${screenRegion.outputWidth}×${screenRegion.outputHeight}`}
+          {recording && ` · 录像中${recording.source === 'mcp' ? ' (MCP)' : ''}`}
+          {recordingError && ` · 录像失败: ${recordingError}`}
+        </span>
       </div>
     </div>
   );
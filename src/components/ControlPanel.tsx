@@ -1,223 +1,29 @@
-import { useState, useCallback, useRef } from 'react';
-import {
-  ARM_CONTROLLER_CONFIG,
-  buildArmApiUrl,
-  parseResourceHandle,
-} from '../config/armController';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { ARM_CONTROLLER_CONFIG } from '../config/armController';
+import { useArmState, getArmErrorMessage } from '../hooks/useArmState';
+import { useArmLease } from '../hooks/useArmLease';
+import { useWorkspaceLimits } from '../hooks/useWorkspaceLimits';
+import { useSequences } from '../hooks/useSequences';
+import { useSequenceRun } from '../hooks/useSequenceRun';
+import { expandSequence, RunStep } from '../../shared/sequence';
+import SequenceRecorder from './SequenceRecorder';
+import SequenceStepList from './SequenceStepList';
 import './ControlPanel.css';
 
-/** Represents a single step in the auto operation sequence */
-interface AutoStep {
-  label: string;
-  x: number;
-  y: number;
-  depth: number;
-  /** Optional delay in ms after this step (default: 100ms) */
-  delayAfter?: number;
-  /** If set, performs a swipe from (x,y) to swipeTo coordinates instead of a click */
-  swipeTo?: { x: number; y: number };
-  /** Delay in ms before raising stylus after swipe (default: 50ms) */
-  swipeHoldDelay?: number;
-}
-
-/** Shared prefix steps (language, PIN, navigation to wallet import) */
-const PREFIX_STEPS: AutoStep[] = [
-  // Initial setup
-  { label: '选择语言', x: 30, y: 55, depth: 12 },
-  { label: '点击继续', x: 30, y: 85, depth: 12 },
-  // Enter PIN code (4 digits)
-  { label: '输入PIN码1', x: 25, y: 50, depth: 12 },
-  { label: '输入PIN码2', x: 25, y: 50, depth: 12 },
-  { label: '输入PIN码3', x: 25, y: 50, depth: 12 },
-  { label: '输入PIN码4', x: 25, y: 50, depth: 12 },
-  { label: '点击确认', x: 55, y: 85, depth: 12 },
-  // Confirm PIN code (4 digits)
-  { label: '再次确认PIN码1', x: 25, y: 50, depth: 12 },
-  { label: '再次确认PIN码2', x: 25, y: 50, depth: 12 },
-  { label: '再次确认PIN码3', x: 25, y: 50, depth: 12 },
-  { label: '再次确认PIN码4', x: 25, y: 50, depth: 12 },
-  { label: '点击确认', x: 55, y: 85, depth: 12 },
-  // Navigation
-  { label: '点击继续', x: 55, y: 85, depth: 12 },
-  { label: '点击稍后设置', x: 55, y: 85, depth: 12 },
-  { label: '点击导入钱包', x: 55, y: 85, depth: 12 },
-  { label: '点击助记词', x: 55, y: 75, depth: 12 },
-];
-
-/** Shared suffix steps (continue, next, finish, reset) */
-const SUFFIX_STEPS: AutoStep[] = [
-  { label: '点击继续', x: 55, y: 85, depth: 12 },
-  { label: '点击下一步', x: 55, y: 85, depth: 12 },
-  { label: '点击完成', x: 55, y: 85, depth: 12, delayAfter: 2000 },
-  { label: '复位', x: 0, y: 0, depth: 12 },
-];
-
-/** Sequence configuration: only contains the variable parts */
-interface OperationSequence {
-  id: string;
-  name: string;
-  selectTypeStep: AutoStep | null;
-  wordSteps: AutoStep[];
-  /** If true, skip PREFIX_STEPS when assembling full sequence */
-  skipPrefix?: boolean;
-  /** If true, skip SUFFIX_STEPS when assembling full sequence */
-  skipSuffix?: boolean;
-}
-
-/** 12 words "all" input steps */
-const WORDS_12_STEPS: AutoStep[] = [
-  // Word 1: "all"
-  { label: '点击单词a', x: 20, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击确认', x: 59, y: 88, depth: 12, delayAfter: 2000 },
-  // Word 2: "all"
-  { label: '点击单词a', x: 20, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击确认', x: 59, y: 88, depth: 12, delayAfter: 2000 },
-  // Word 3: "all"
-  { label: '点击单词a', x: 20, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击确认', x: 59, y: 88, depth: 12, delayAfter: 2000 },
-  // Word 4: "all"
-  { label: '点击单词a', x: 20, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击确认', x: 59, y: 88, depth: 12, delayAfter: 2000 },
-  // Word 5: "all"
-  { label: '点击单词a', x: 20, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击确认', x: 59, y: 88, depth: 12, delayAfter: 2000 },
-  // Word 6: "all"
-  { label: '点击单词a', x: 20, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击确认', x: 59, y: 88, depth: 12, delayAfter: 2000 },
-  // Word 7: "all"
-  { label: '点击单词a', x: 20, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击确认', x: 59, y: 88, depth: 12, delayAfter: 2000 },
-  // Word 8: "all"
-  { label: '点击单词a', x: 20, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击确认', x: 59, y: 88, depth: 12, delayAfter: 2000 },
-  // Word 9: "all"
-  { label: '点击单词a', x: 20, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击确认', x: 59, y: 88, depth: 12, delayAfter: 2000 },
-  // Word 10: "all"
-  { label: '点击单词a', x: 20, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击确认', x: 59, y: 88, depth: 12, delayAfter: 2000 },
-  // Word 11: "all"
-  { label: '点击单词a', x: 20, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击确认', x: 59, y: 88, depth: 12, delayAfter: 2000 },
-  // Word 12: "all"
-  { label: '点击单词a', x: 20, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击单词l', x: 59, y: 80, depth: 12, delayAfter: 1000 },
-  { label: '点击确认', x: 59, y: 88, depth: 12, delayAfter: 2000 },
-];
-
-/** Reset wallet steps */
-const RESET_WALLET_STEPS: AutoStep[] = [
-  // Wake up password keyboard (double click)
-  { label: '唤醒键盘0', x: 35, y: 85, depth: 12 },
-  { label: '唤醒键盘1', x: 35, y: 85, depth: 12 },
-  { label: '唤醒键盘2', x: 35, y: 85, depth: 12, delayAfter: 1000 },
-  // Enter PIN 1111
-  { label: '输入PIN码1', x: 25, y: 50, depth: 12 },
-  { label: '输入PIN码2', x: 25, y: 50, depth: 12 },
-  { label: '输入PIN码3', x: 25, y: 50, depth: 12 },
-  { label: '输入PIN码4', x: 25, y: 50, depth: 12 },
-  { label: '点击确认', x: 55, y: 85, depth: 12, delayAfter: 2000 },
-  // Enter settings
-  { label: '进入设置APP', x: 50, y: 65, depth: 12 },
-  { label: '进入钱包栏目', x: 50, y: 55, depth: 12 },
-  // Swipe up
-  { label: '向上滑动', x: 35, y: 85, depth: 12, swipeTo: { x: 35, y: 70 } },
-  // Double click
-  { label: '点击1', x: 50, y: 85, depth: 12 },
-  { label: '点击2', x: 50, y: 85, depth: 12 },
-  // Settings navigation
-  { label: '点击设置项1', x: 25, y: 40, depth: 12 },
-  { label: '点击设置项2', x: 25, y: 55, depth: 12 },
-  // Swipe left to right, hold before release, then wait
-  { label: '向右滑动', x: 20, y: 75, depth: 12, swipeTo: { x: 60, y: 75 }, swipeHoldDelay: 500, delayAfter: 5000 },
-  // Final confirmation with wait
-  { label: '点击确认', x: 25, y: 85, depth: 12, delayAfter: 10000 },
-  // Reset to origin
-  { label: '复位', x: 0, y: 0, depth: 12 },
-];
-
-/** Available operation sequences */
-const OPERATION_SEQUENCES: OperationSequence[] = [
-  {
-    id: 'words-12',
-    name: '12个词',
-    selectTypeStep: { label: '点击12位助记词', x: 55, y: 50, depth: 12 },
-    wordSteps: WORDS_12_STEPS,
-  },
-  {
-    id: 'reset-wallet',
-    name: '重置钱包',
-    selectTypeStep: null,
-    wordSteps: RESET_WALLET_STEPS,
-    skipPrefix: true,
-    skipSuffix: true,
-  },
-];
-
-/** Assembles the full steps sequence from a sequence configuration */
-const getFullSteps = (sequence: OperationSequence): AutoStep[] => {
-  const steps: AutoStep[] = [];
-
-  // Add prefix steps if not skipped
-  if (!sequence.skipPrefix) {
-    steps.push(...PREFIX_STEPS);
-  }
-
-  // Add selectTypeStep and continue button if present
-  if (sequence.selectTypeStep) {
-    steps.push(sequence.selectTypeStep);
-    steps.push({ label: '点击继续', x: 55, y: 85, depth: 12 });
-  }
-
-  // Add word steps
-  steps.push(...sequence.wordSteps);
-
-  // Add suffix steps if not skipped
-  if (!sequence.skipSuffix) {
-    steps.push(...SUFFIX_STEPS);
-  }
-
-  return steps;
-};
-
 interface ControlPanelState {
-  isConnected: boolean;
-  resourceHandle: number;
   serverIP: string;
   comPort: string;
   stepSize: number;
   zDepth: number;
-  currentX: number;
-  currentY: number;
   isLoading: boolean;
-  isReady: boolean;
   error: string | null;
-  isAutoRunning: boolean;
-  autoProgress: number;
   selectedSequenceId: string;
+  /** Parameter values entered for the selected sequence */
+  paramValues: Record<string, string>;
+  /** Expanded step index the next run starts at */
+  startAt: number;
+  /** Expanded step indices the run pauses before */
+  breakpoints: number[];
 }
 
 interface LogEntry {
@@ -227,26 +33,51 @@ interface LogEntry {
   detail: string;
 }
 
+/**
+ * Manual and automatic arm control.
+ * Connection, handle and position live in the main-process arm driver,
+ * so this panel reflects arm activity from MCP clients as well as its own.
+ */
 function ControlPanel() {
+  const armState = useArmState();
+  const lease = useArmLease();
+  const workspace = useWorkspaceLimits();
+  const { sequences, errors: sequenceErrors } = useSequences();
+  const run = useSequenceRun();
   const [state, setState] = useState<ControlPanelState>({
-    isConnected: false,
-    resourceHandle: 0,
     serverIP: ARM_CONTROLLER_CONFIG.defaultServerIP,
     comPort: ARM_CONTROLLER_CONFIG.defaultComPort,
     stepSize: ARM_CONTROLLER_CONFIG.defaultStepSize,
     zDepth: ARM_CONTROLLER_CONFIG.defaultZDepth,
-    currentX: 0,
-    currentY: 0,
     isLoading: false,
-    isReady: false,
     error: null,
-    isAutoRunning: false,
-    autoProgress: 0,
-    selectedSequenceId: OPERATION_SEQUENCES[0].id,
+    selectedSequenceId: '',
+    paramValues: {},
+    startAt: 0,
+    breakpoints: [],
   });
 
-  // Ref to track if auto operation should be cancelled
-  const autoOperationCancelledRef = useRef(false);
+  // Fall back to the first sequence when the selection is unset or was removed on reload
+  const selectedSequence =
+    sequences.find(s => s.id === state.selectedSequenceId) ?? sequences[0] ?? null;
+
+  // Runs happen in the main process; this also covers runs started over MCP
+  const isAutoRunning = run?.status === 'running' || run?.status === 'paused';
+  const isPaused = run?.status === 'paused';
+
+  // Expanded steps for the debugger list; invalid parameter values leave it empty
+  const { steps: debugSteps, error: expandError } = useMemo((): { steps: RunStep[]; error: string | null } => {
+    if (!selectedSequence) return { steps: [], error: null };
+    try {
+      return { steps: expandSequence(selectedSequence, state.paramValues), error: null };
+    } catch (error) {
+      return { steps: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [selectedSequence, state.paramValues]);
+
+  // Step highlighted in the list while the selected sequence runs
+  const currentStepIndex =
+    isAutoRunning && run.sequenceId === selectedSequence?.id ? run.stepIndex : null;
 
   const [logs, setLogs] = useState<LogEntry[]>([]);
 
@@ -259,141 +90,65 @@ function ControlPanel() {
     ]);
   }, []);
 
-  /**
-   * Sends a command to the arm controller via HTTP.
-   * Uses Electron IPC to bypass CORS restrictions.
-   * Falls back to fetch API when Electron is unavailable (development mode).
-   *
-   * @param params - Command parameters (duankou, hco, daima)
-   * @returns Server response as string
-   * @throws Error if request fails
-   */
-  const sendCommand = useCallback(async (params: { duankou: string; hco: number; daima: string }): Promise<string> => {
-    const url = buildArmApiUrl(state.serverIP, params);
-    try {
-      if (window.electronAPI?.httpRequest) {
-        const response = await window.electronAPI.httpRequest(url);
-        return response.data;
-      } else {
-        const response = await fetch(url);
-        const text = await response.text();
-        return text;
-      }
-    } catch (error) {
-      throw new Error(`Request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }, [state.serverIP]);
-
-  const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  const isArmReady = armState.isConnected && armState.isReady;
 
   /**
-   * Connects to the arm controller by opening the COM port.
-   * After successful connection, waits for device to be ready before enabling controls.
+   * Connects to the arm controller through the main-process driver.
+   * The driver waits for the device to be ready before enabling controls.
    */
   const handleConnect = async () => {
     if (state.isLoading) return;
-    
+
     setState(prev => ({ ...prev, isLoading: true, error: null }));
-    
+
     try {
-      const result = await sendCommand({
-        duankou: state.comPort,
-        hco: 0,
-        daima: '0',
-      });
-      
-      const resourceHandle = parseResourceHandle(result);
-      
-      if (resourceHandle > 0) {
-        setState(prev => ({
-          ...prev,
-          isConnected: true,
-          resourceHandle,
-          isLoading: false,
-          isReady: false,
-        }));
-        
-        await delay(ARM_CONTROLLER_CONFIG.deviceReadyDelay);
-        
-        setState(prev => ({ ...prev, isReady: true }));
-      } else {
-        setState(prev => ({
-          ...prev,
-          isLoading: false,
-          error: 'Failed to open port. Check if port is occupied.',
-        }));
-      }
+      const resourceHandle = await window.electronAPI.armConnect(state.serverIP, state.comPort);
+      addLog('连接', `${state.comPort} 句柄 ${resourceHandle}`);
+      setState(prev => ({ ...prev, isLoading: false }));
     } catch (error) {
       setState(prev => ({
         ...prev,
         isLoading: false,
-        error: error instanceof Error ? error.message : 'Connection failed',
+        error: getArmErrorMessage(error, 'Connection failed'),
       }));
     }
   };
 
   /**
    * Disconnects from the arm controller.
-   * First resets machine position to origin, then closes the COM port.
-   * Can be called even when not connected to release any previous connection.
+   * The driver resets the position to origin, closes the COM port,
+   * and resets its state even if a command fails.
    */
   const handleDisconnect = async () => {
     if (state.isLoading) return;
-    
+
     setState(prev => ({ ...prev, isLoading: true, error: null }));
-    
+
     try {
-      if (state.isConnected && state.resourceHandle > 0) {
-        await sendCommand({
-          duankou: '0',
-          hco: state.resourceHandle,
-          daima: 'X0Y0Z0',
-        });
-        
-        await delay(ARM_CONTROLLER_CONFIG.commandDelay);
-        
-        await sendCommand({
-          duankou: '0',
-          hco: state.resourceHandle,
-          daima: '0',
-        });
-      }
-      
-      setState(prev => ({
-        ...prev,
-        isConnected: false,
-        resourceHandle: 0,
-        currentX: 0,
-        currentY: 0,
-        isLoading: false,
-        isReady: false,
-      }));
+      await window.electronAPI.armDisconnect();
+      addLog('断开', '已复位并断开连接');
     } catch (error) {
-      setState(prev => ({
-        ...prev,
-        isConnected: false,
-        resourceHandle: 0,
-        currentX: 0,
-        currentY: 0,
-        isLoading: false,
-        isReady: false,
-      }));
+      addLog('错误', `断开时出错: ${getArmErrorMessage(error)}`);
+    } finally {
+      setState(prev => ({ ...prev, isLoading: false }));
     }
   };
 
   /**
    * Moves the arm in the specified direction by the current step size.
    * Y axis is inverted: Y decreases when moving up, increases when moving down.
-   * Coordinates are clamped to non-negative values.
+   * Coordinates are clamped to the workspace travel; no-go zones are rejected by the driver.
    *
    * @param direction - Movement direction (up, down, left, right)
    */
   const handleMove = async (direction: 'up' | 'down' | 'left' | 'right') => {
-    if (state.isLoading || !state.isConnected || !state.isReady) return;
-    
-    let newX = state.currentX;
-    let newY = state.currentY;
-    
+    if (state.isLoading || !isArmReady) return;
+
+    const fromX = armState.currentX;
+    const fromY = armState.currentY;
+    let newX = fromX;
+    let newY = fromY;
+
     switch (direction) {
       case 'up':
         newY -= state.stepSize;
@@ -408,186 +163,163 @@ function ControlPanel() {
         newX += state.stepSize;
         break;
     }
-    
-    newX = Math.max(0, newX);
-    newY = Math.max(0, newY);
-    
+
+    newX = Math.min(Math.max(0, newX), workspace.maxX);
+    newY = Math.min(Math.max(0, newY), workspace.maxY);
+
     setState(prev => ({ ...prev, isLoading: true, error: null }));
-    
+
     const directionLabel = { up: '上', down: '下', left: '左', right: '右' }[direction];
-    
+
     try {
-      await sendCommand({
-        duankou: '0',
-        hco: state.resourceHandle,
-        daima: `X${newX}Y${newY}`,
-      });
-      
-      addLog('移动', `${directionLabel} (${state.currentX},${state.currentY}) → (${newX},${newY})`);
-      
-      setState(prev => ({
-        ...prev,
-        currentX: newX,
-        currentY: newY,
-        isLoading: false,
-      }));
+      const position = await window.electronAPI.armMoveTo(newX, newY);
+      addLog('移动', `${directionLabel} (${fromX},${fromY}) → (${position.x},${position.y})`);
+      setState(prev => ({ ...prev, isLoading: false }));
     } catch (error) {
-      addLog('错误', `移动失败: ${error instanceof Error ? error.message : 'Unknown'}`);
+      addLog('错误', `移动失败: ${getArmErrorMessage(error)}`);
       setState(prev => ({
         ...prev,
         isLoading: false,
-        error: error instanceof Error ? error.message : 'Move failed',
+        error: getArmErrorMessage(error, 'Move failed'),
       }));
     }
   };
 
   /**
    * Performs a click operation at the current position.
-   * Lowers the pen (Z6), waits briefly, then raises it (Z0).
+   * Lowers the pen to the selected depth, waits briefly, then raises it.
    */
   const handleClick = async () => {
-    if (state.isLoading || !state.isConnected || !state.isReady) return;
-    
+    if (state.isLoading || !isArmReady) return;
+
     setState(prev => ({ ...prev, isLoading: true, error: null }));
-    
+
     try {
-      await sendCommand({
-        duankou: '0',
-        hco: state.resourceHandle,
-        daima: `Z${state.zDepth}`,
-      });
-      
-      await delay(ARM_CONTROLLER_CONFIG.clickDelay);
-      
-      await sendCommand({
-        duankou: '0',
-        hco: state.resourceHandle,
-        daima: `Z${ARM_CONTROLLER_CONFIG.zUp}`,
-      });
-      
-      addLog('点击', `位置 (${state.currentX},${state.currentY}) 深度 Z${state.zDepth}`);
-      
+      await window.electronAPI.armPress(state.zDepth);
+      addLog('点击', `位置 (${armState.currentX},${armState.currentY}) 深度 Z${state.zDepth}`);
       setState(prev => ({ ...prev, isLoading: false }));
     } catch (error) {
-      addLog('错误', `点击失败: ${error instanceof Error ? error.message : 'Unknown'}`);
+      addLog('错误', `点击失败: ${getArmErrorMessage(error)}`);
       setState(prev => ({
         ...prev,
         isLoading: false,
-        error: error instanceof Error ? error.message : 'Click operation failed',
+        error: getArmErrorMessage(error, 'Click operation failed'),
       }));
     }
   };
 
   /**
-   * Executes the selected auto operation sequence.
-   * Performs move and click operations for each step with configurable delay between steps.
+   * Logs each step of the active sequence run.
+   */
+  useEffect(() => {
+    if (run?.status === 'running') {
+      addLog('自动', `[${run.stepIndex + 1}/${run.totalSteps}] ${run.label}`);
+    } else if (run?.status === 'paused') {
+      addLog('自动', `已暂停于第 ${run.stepIndex + 1} 步: ${run.label}`);
+    }
+  }, [run, addLog]);
+
+  /**
+   * Runs the selected auto operation sequence in the main-process runner.
+   * Steps click, swipe, long press, double tap or only move depending on their fields.
+   *
+   * @param paused - Pause before the first step (single-step debugging)
    */
-  const handleAutoOperation = async () => {
-    if (state.isLoading || !state.isConnected || !state.isReady || state.isAutoRunning) return;
+  const handleAutoOperation = async (paused = false) => {
+    if (state.isLoading || !isArmReady || isAutoRunning) return;
 
-    const sequence = OPERATION_SEQUENCES.find(s => s.id === state.selectedSequenceId);
+    const sequence = selectedSequence;
     if (!sequence) return;
 
-    const steps = getFullSteps(sequence);
-
-    autoOperationCancelledRef.current = false;
-    setState(prev => ({ ...prev, isAutoRunning: true, autoProgress: 0, error: null }));
-    addLog('自动', `开始执行自动操作序列: ${sequence.name}`);
+    const startAt = state.startAt < debugSteps.length ? state.startAt : 0;
+    setState(prev => ({ ...prev, error: null }));
+    addLog(
+      '自动',
+      startAt > 0
+        ? `从第 ${startAt + 1} 步开始执行自动操作序列: ${sequence.name}`
+        : `开始执行自动操作序列: ${sequence.name}`
+    );
 
     try {
-      for (let i = 0; i < steps.length; i++) {
-        // Check if operation was cancelled
-        if (autoOperationCancelledRef.current) {
-          addLog('自动', '操作已取消');
-          break;
-        }
-
-        const step = steps[i];
-        setState(prev => ({ ...prev, autoProgress: i + 1 }));
-
-        if (step.swipeTo) {
-          // Swipe operation: move to start -> lower stylus -> move to end -> raise stylus
-          await sendCommand({
-            duankou: '0',
-            hco: state.resourceHandle,
-            daima: `X${step.x}Y${step.y}`,
-          });
-
-          await sendCommand({
-            duankou: '0',
-            hco: state.resourceHandle,
-            daima: `Z${step.depth}`,
-          });
-
-          await delay(50);
-
-          await sendCommand({
-            duankou: '0',
-            hco: state.resourceHandle,
-            daima: `X${step.swipeTo.x}Y${step.swipeTo.y}`,
-          });
-
-          // Wait before raising stylus (use custom hold delay or default 50ms)
-          await delay(step.swipeHoldDelay ?? 50);
-
-          await sendCommand({
-            duankou: '0',
-            hco: state.resourceHandle,
-            daima: `Z${ARM_CONTROLLER_CONFIG.zUp}`,
-          });
-
-          addLog('自动', `${step.label} (${step.x},${step.y}) → (${step.swipeTo.x},${step.swipeTo.y})`);
-        } else {
-          // Click operation: move to position -> lower stylus -> raise stylus
-          await sendCommand({
-            duankou: '0',
-            hco: state.resourceHandle,
-            daima: `X${step.x}Y${step.y}`,
-          });
-
-          await sendCommand({
-            duankou: '0',
-            hco: state.resourceHandle,
-            daima: `Z${step.depth}`,
-          });
-
-          await delay(ARM_CONTROLLER_CONFIG.clickDelay);
-
-          await sendCommand({
-            duankou: '0',
-            hco: state.resourceHandle,
-            daima: `Z${ARM_CONTROLLER_CONFIG.zUp}`,
-          });
-
-          addLog('自动', `${step.label} (${step.x},${step.y})`);
-        }
-
-        // Wait before next step (use custom delay or default 100ms)
-        await delay(step.delayAfter ?? 200);
-      }
+      const summary = await window.electronAPI.runSequence(sequence.id, state.paramValues, {
+        startAt,
+        breakpoints: state.breakpoints,
+        paused,
+      });
+      const failed = summary.steps.find(step => step.status === 'failed');
 
-      if (!autoOperationCancelledRef.current) {
+      if (summary.status === 'completed') {
         addLog('自动', '自动操作序列完成');
+      } else if (summary.status === 'cancelled') {
+        addLog('自动', '操作已取消');
+      } else if (failed) {
+        addLog('错误', `自动操作失败: ${failed.label}: ${failed.error}`);
+        setState(prev => ({ ...prev, error: failed.error ?? 'Auto operation failed' }));
       }
     } catch (error) {
-      addLog('错误', `自动操作失败: ${error instanceof Error ? error.message : 'Unknown'}`);
+      addLog('错误', `自动操作失败: ${getArmErrorMessage(error)}`);
       setState(prev => ({
         ...prev,
-        error: error instanceof Error ? error.message : 'Auto operation failed',
+        error: getArmErrorMessage(error, 'Auto operation failed'),
       }));
-    } finally {
-      setState(prev => ({ ...prev, isAutoRunning: false, autoProgress: 0 }));
     }
   };
 
+  /**
+   * Takes the arm away from the MCP session holding it.
+   * The session's next arm tool call may acquire it again if the arm is free.
+   */
+  const handleReleaseLease = async () => {
+    if (!lease) return;
+    await window.electronAPI.releaseArmLease();
+    addLog('租约', `已释放 MCP 会话 ${lease.sessionId.slice(0, 8)} 的控制权`);
+  };
+
   /**
    * Cancels the ongoing auto operation.
    */
   const handleCancelAutoOperation = () => {
-    autoOperationCancelledRef.current = true;
+    window.electronAPI.cancelSequence();
   };
 
-  const isControlDisabled = !state.isConnected || !state.isReady || state.isLoading || state.isAutoRunning;
+  /**
+   * Pauses the active run, or resumes it until the next breakpoint.
+   */
+  const handlePauseResume = () => {
+    if (isPaused) {
+      window.electronAPI.resumeSequence();
+    } else {
+      window.electronAPI.pauseSequence();
+    }
+  };
+
+  /**
+   * Runs the next step of a paused run, or starts a run paused at its first step.
+   */
+  const handleStep = () => {
+    if (isPaused) {
+      window.electronAPI.stepSequence();
+    } else {
+      handleAutoOperation(true);
+    }
+  };
+
+  /**
+   * Adds or removes a breakpoint before an expanded step.
+   * The change also goes to the active run of the selected sequence; a new run
+   * starts with the current set.
+   */
+  const handleToggleBreakpoint = (index: number) => {
+    const breakpoints = state.breakpoints.includes(index)
+      ? state.breakpoints.filter(i => i !== index)
+      : [...state.breakpoints, index];
+    setState(prev => ({ ...prev, breakpoints }));
+    if (currentStepIndex !== null) {
+      window.electronAPI.setSequenceBreakpoints(breakpoints);
+    }
+  };
+
+  const isControlDisabled = !isArmReady || state.isLoading || isAutoRunning;
 
   return (
     <div className="control-panel">
@@ -596,69 +328,152 @@ function ControlPanel() {
         <div className="connection-row">
           <input
             type="text"
-            value={state.serverIP}
+            value={armState.isConnected ? armState.serverIP : state.serverIP}
             onChange={(e) => setState(prev => ({ ...prev, serverIP: e.target.value }))}
-            disabled={state.isConnected}
+            disabled={armState.isConnected}
             placeholder="IP 地址"
             className="input-ip"
           />
           <input
             type="text"
-            value={state.comPort}
+            value={armState.isConnected ? armState.comPort : state.comPort}
             onChange={(e) => setState(prev => ({ ...prev, comPort: e.target.value }))}
-            disabled={state.isConnected}
+            disabled={armState.isConnected}
             placeholder="串口"
             className="input-port"
           />
           <div className="position-display">
-            <span className="coordinate">X: {state.currentX}</span>
-            <span className="coordinate">Y: {state.currentY}</span>
+            <span className="coordinate">X: {armState.currentX}</span>
+            <span className="coordinate">Y: {armState.currentY}</span>
           </div>
           <button
-            className={`btn btn-connect ${state.isConnected ? 'btn-secondary' : 'btn-primary'}`}
-            onClick={state.isConnected ? handleDisconnect : handleConnect}
-            disabled={state.isLoading || state.isAutoRunning}
+            className={`btn btn-connect ${armState.isConnected ? 'btn-secondary' : 'btn-primary'}`}
+            onClick={armState.isConnected ? handleDisconnect : handleConnect}
+            disabled={state.isLoading || isAutoRunning}
           >
             {state.isLoading
-              ? (state.isConnected ? '断开中...' : '连接中...')
-              : (state.isConnected ? '断开连接' : '连接')}
+              ? (armState.isConnected ? '断开中...' : '连接中...')
+              : (armState.isConnected ? '断开连接' : '连接')}
           </button>
         </div>
+        {lease && (
+          <div className="lease-row">
+            <span>MCP 会话 {lease.sessionId.slice(0, 8)} 正在控制机械臂</span>
+            <button className="btn btn-secondary btn-release" onClick={handleReleaseLease}>
+              强制释放
+            </button>
+          </div>
+        )}
       </div>
 
       <div className="control-section auto-operation-section">
         <h3>自动操作</h3>
         <div className="auto-operation-row">
           <select
-            value={state.selectedSequenceId}
-            onChange={(e) => setState(prev => ({ ...prev, selectedSequenceId: e.target.value }))}
-            disabled={state.isAutoRunning || !state.isConnected || !state.isReady || state.isLoading}
+            value={selectedSequence?.id ?? ''}
+            onChange={(e) => setState(prev => ({
+              ...prev,
+              selectedSequenceId: e.target.value,
+              paramValues: {},
+              startAt: 0,
+              breakpoints: [],
+            }))}
+            disabled={isAutoRunning || !isArmReady || state.isLoading || sequences.length === 0}
             className="sequence-select"
+            title={selectedSequence?.description ?? selectedSequence?.file}
           >
-            {OPERATION_SEQUENCES.map(seq => (
+            {sequences.length === 0 && <option value="">无可用序列</option>}
+            {sequences.map(seq => (
               <option key={seq.id} value={seq.id}>{seq.name}</option>
             ))}
           </select>
           <button
-            className={`btn btn-auto ${state.isAutoRunning ? 'btn-secondary' : 'btn-primary'}`}
-            onClick={state.isAutoRunning ? handleCancelAutoOperation : handleAutoOperation}
-            disabled={!state.isConnected || !state.isReady || state.isLoading}
+            className={`btn btn-auto ${isAutoRunning ? 'btn-secondary' : 'btn-primary'}`}
+            onClick={isAutoRunning ? handleCancelAutoOperation : () => handleAutoOperation()}
+            disabled={!isArmReady || state.isLoading || !selectedSequence}
           >
-            {state.isAutoRunning
-              ? `取消 (${state.autoProgress}/${getFullSteps(OPERATION_SEQUENCES.find(s => s.id === state.selectedSequenceId)!).length})`
-              : '开始'}
+            {isAutoRunning
+              ? `取消 (${run.stepIndex + 1}/${run.totalSteps})`
+              : state.startAt > 0 ? `从第 ${state.startAt + 1} 步开始` : '开始'}
           </button>
-          {state.isAutoRunning && (
-            <div className="auto-progress">
+          {isAutoRunning && (
+            <button className="btn btn-secondary btn-debug" onClick={handlePauseResume}>
+              {isPaused ? '继续' : '暂停'}
+            </button>
+          )}
+          <button
+            className="btn btn-secondary btn-debug"
+            onClick={handleStep}
+            disabled={isAutoRunning ? !isPaused : !isArmReady || state.isLoading || !selectedSequence}
+            title={isAutoRunning ? '执行下一步后暂停' : '启动序列并在第一步前暂停'}
+          >
+            单步
+          </button>
+          <button
+            className="btn btn-secondary btn-folder"
+            onClick={() => window.electronAPI.openSequencesFolder()}
+            title="打开序列文件夹（修改后自动重新加载）"
+          >
+            文件夹
+          </button>
+          {isAutoRunning && (
+            <div className="auto-progress" title={run.name}>
               <div
                 className="auto-progress-bar"
-                style={{ width: `${(state.autoProgress / getFullSteps(OPERATION_SEQUENCES.find(s => s.id === state.selectedSequenceId)!).length) * 100}%` }}
+                style={{ width: `${((run.stepIndex + 1) / run.totalSteps) * 100}%` }}
               />
             </div>
           )}
         </div>
+        {selectedSequence && selectedSequence.params.length > 0 && (
+          <div className="sequence-params">
+            {selectedSequence.params.map(param => (
+              <label key={param.name}>
+                <span>{param.label ?? param.name}</span>
+                <input
+                  type="text"
+                  value={state.paramValues[param.name] ?? param.default ?? ''}
+                  onChange={(e) => setState(prev => ({
+                    ...prev,
+                    paramValues: { ...prev.paramValues, [param.name]: e.target.value },
+                  }))}
+                  disabled={isAutoRunning}
+                  placeholder={param.type === 'words' ? '以空格分隔' : undefined}
+                  inputMode={param.type === 'digits' ? 'numeric' : undefined}
+                />
+              </label>
+            ))}
+          </div>
+        )}
+        {debugSteps.length > 0 && (
+          <SequenceStepList
+            steps={debugSteps}
+            currentIndex={currentStepIndex}
+            isPaused={isPaused}
+            startAt={state.startAt}
+            breakpoints={state.breakpoints}
+            disabled={isAutoRunning}
+            onToggleBreakpoint={handleToggleBreakpoint}
+            onSelectStart={(index) => setState(prev => ({ ...prev, startAt: index }))}
+          />
+        )}
+        {expandError && <div className="error-message">{expandError}</div>}
+        {sequenceErrors.length > 0 && (
+          <ul className="sequence-errors">
+            {sequenceErrors.map(err => (
+              <li key={err.file}>
+                <span className="sequence-error-file">{err.file}</span> {err.message}
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
 
+      <SequenceRecorder
+        disabled={isAutoRunning}
+        onSaved={(name, file) => addLog('录制', `已保存序列 ${name} (${file})`)}
+      />
+
       {state.error && (
         <div className="error-message">
           {state.error}
@@ -1,41 +1,133 @@
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useMemo, useState, useRef } from 'react';
 import './McpLogsPanel.css';
 
+type McpLogType = 'request' | 'response' | 'error' | 'info';
+
 interface McpLogEntry {
   id: number;
   time: string;
-  type: 'request' | 'response' | 'error' | 'info';
+  /** ISO timestamp, used for exports */
+  timestamp: string;
+  type: McpLogType;
   action: string;
   detail: string;
+  sessionId?: string;
+  /** Full JSON arguments or result */
+  data?: unknown;
+}
+
+/** Log entries kept in memory; older ones are dropped */
+const MAX_LOG_ENTRIES = 500;
+
+const LOG_TYPES: McpLogType[] = ['request', 'response', 'error', 'info'];
+
+/** Session filter value for entries logged outside a session */
+const NO_SESSION = '-';
+
+/**
+ * Shortens a session ID for display.
+ */
+function shortSession(sessionId?: string): string {
+  return sessionId ? sessionId.slice(0, 8) : NO_SESSION;
+}
+
+/**
+ * Quotes a CSV field if it contains separators, quotes or line breaks.
+ */
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Formats log entries as CSV, with the JSON data in the last column.
+ */
+function toCsv(logs: McpLogEntry[]): string {
+  const rows = logs.map((log) =>
+    [
+      log.timestamp,
+      log.type,
+      log.action,
+      log.sessionId ?? '',
+      log.detail,
+      log.data === undefined ? '' : JSON.stringify(log.data),
+    ]
+      .map(csvField)
+      .join(',')
+  );
+  return ['timestamp,type,action,session,detail,data', ...rows].join('\r\n');
+}
+
+/**
+ * Saves text as a file through the browser download flow.
+ */
+function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
 }
 
 function McpLogsPanel() {
   const [logs, setLogs] = useState<McpLogEntry[]>([]);
+  const [types, setTypes] = useState<Set<McpLogType>>(() => new Set(LOG_TYPES));
+  const [actionFilter, setActionFilter] = useState('');
+  const [sessionFilter, setSessionFilter] = useState('');
+  const [search, setSearch] = useState('');
+  const [expanded, setExpanded] = useState<Set<number>>(() => new Set());
+  const [autoScroll, setAutoScroll] = useState(true);
+  const nextIdRef = useRef(1);
   const logsEndRef = useRef<HTMLDivElement>(null);
 
-  // Scroll to bottom when new logs arrive
-  const scrollToBottom = () => {
-    logsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  };
+  const actions = useMemo(() => Array.from(new Set(logs.map((log) => log.action))).sort(), [logs]);
+  const sessions = useMemo(
+    () => Array.from(new Set(logs.map((log) => log.sessionId ?? NO_SESSION))).sort(),
+    [logs]
+  );
 
+  // Filter by type, action and session, then by free text over detail and JSON data
+  const filteredLogs = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return logs.filter((log) => {
+      if (!types.has(log.type)) return false;
+      if (actionFilter && log.action !== actionFilter) return false;
+      if (sessionFilter && (log.sessionId ?? NO_SESSION) !== sessionFilter) return false;
+      if (!query) return true;
+      const haystack = [
+        log.action,
+        log.detail,
+        log.sessionId ?? '',
+        log.data === undefined ? '' : JSON.stringify(log.data),
+      ].join('\n');
+      return haystack.toLowerCase().includes(query);
+    });
+  }, [logs, types, actionFilter, sessionFilter, search]);
+
+  // Scroll to bottom when new logs arrive, unless auto-scroll is paused
   useEffect(() => {
-    scrollToBottom();
-  }, [logs]);
+    if (autoScroll) {
+      logsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [filteredLogs, autoScroll]);
 
   // Listen for MCP log events from main process
   useEffect(() => {
     const unsubscribe = window.electronAPI?.onMcpLog?.((log) => {
       const now = new Date();
       const time = now.toLocaleTimeString('zh-CN', { hour12: false });
-      
+
       setLogs((prev) => [
-        ...prev.slice(-99), // Keep last 100 logs
+        ...prev.slice(-(MAX_LOG_ENTRIES - 1)),
         {
-          id: Date.now(),
+          id: nextIdRef.current++,
           time,
+          timestamp: now.toISOString(),
           type: log.type,
           action: log.action,
           detail: log.detail,
+          sessionId: log.sessionId,
+          data: log.data,
         },
       ]);
     });
@@ -71,33 +163,170 @@ function McpLogsPanel() {
     }
   };
 
+  const toggleType = (type: McpLogType) => {
+    setTypes((prev) => {
+      const next = new Set(prev);
+      if (next.has(type)) {
+        next.delete(type);
+      } else {
+        next.add(type);
+      }
+      return next;
+    });
+  };
+
+  const toggleExpanded = (id: number) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Exports the entries currently shown, with their full JSON data.
+   */
+  const handleExport = (format: 'json' | 'csv') => {
+    const stamp = new Date().toISOString().replace(/\D/g, '').slice(0, 14);
+    if (format === 'json') {
+      const entries = filteredLogs.map(({ timestamp, type, action, sessionId, detail, data }) => ({
+        timestamp,
+        type,
+        action,
+        sessionId,
+        detail,
+        data,
+      }));
+      downloadFile(`mcp-logs-${stamp}.json`, JSON.stringify(entries, null, 2), 'application/json');
+    } else {
+      downloadFile(`mcp-logs-${stamp}.csv`, toCsv(filteredLogs), 'text/csv');
+    }
+  };
+
+  const handleClear = () => {
+    setLogs([]);
+    setExpanded(new Set());
+  };
+
   return (
     <div className="mcp-logs-panel">
       <div className="mcp-logs-header">
         <h3>MCP Logs</h3>
-        {logs.length > 0 && (
+        <div className="mcp-logs-actions">
+          <button
+            className={`clear-logs-btn ${autoScroll ? '' : 'active'}`}
+            onClick={() => setAutoScroll(!autoScroll)}
+            title={autoScroll ? 'Stop scrolling to new entries' : 'Scroll to new entries again'}
+          >
+            {autoScroll ? 'Pause' : 'Resume'}
+          </button>
           <button
             className="clear-logs-btn"
-            onClick={() => setLogs([])}
-            title="Clear logs"
+            onClick={() => handleExport('json')}
+            disabled={filteredLogs.length === 0}
+            title="Export the entries shown as JSON"
           >
-            Clear
+            JSON
           </button>
-        )}
+          <button
+            className="clear-logs-btn"
+            onClick={() => handleExport('csv')}
+            disabled={filteredLogs.length === 0}
+            title="Export the entries shown as CSV"
+          >
+            CSV
+          </button>
+          <button
+            className="clear-logs-btn"
+            onClick={() => {
+              window.electronAPI?.openAuditFolder?.().catch((err) => {
+                console.error('Failed to open audit log folder:', err);
+              });
+            }}
+            title="Open the folder of the persistent tool call audit log"
+          >
+            Audit Log
+          </button>
+          {logs.length > 0 && (
+            <button
+              className="clear-logs-btn"
+              onClick={handleClear}
+              title="Clear logs"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="mcp-logs-filters">
+        {LOG_TYPES.map((type) => (
+          <button
+            key={type}
+            className={`log-type ${getTypeClass(type)} log-type-filter ${types.has(type) ? '' : 'off'}`}
+            onClick={() => toggleType(type)}
+            title={types.has(type) ? `Hide ${getTypeLabel(type)} entries` : `Show ${getTypeLabel(type)} entries`}
+          >
+            {getTypeLabel(type)}
+          </button>
+        ))}
+        <select value={actionFilter} onChange={(e) => setActionFilter(e.target.value)}>
+          <option value="">All actions</option>
+          {actions.map((action) => (
+            <option key={action} value={action}>{action}</option>
+          ))}
+        </select>
+        <select value={sessionFilter} onChange={(e) => setSessionFilter(e.target.value)}>
+          <option value="">All sessions</option>
+          {sessions.map((session) => (
+            <option key={session} value={session}>
+              {session === NO_SESSION ? 'No session' : shortSession(session)}
+            </option>
+          ))}
+        </select>
+        <input
+          type="search"
+          className="mcp-logs-search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search"
+        />
+        <span className="mcp-logs-count">
+          {filteredLogs.length}/{logs.length}
+        </span>
       </div>
       <div className="mcp-logs-content">
         {logs.length === 0 ? (
           <p className="mcp-logs-placeholder">Waiting for MCP connections...</p>
+        ) : filteredLogs.length === 0 ? (
+          <p className="mcp-logs-placeholder">No entries match the filters.</p>
         ) : (
           <div className="mcp-logs-list">
-            {logs.map((log) => (
-              <div key={log.id} className="mcp-log-entry">
-                <span className="log-time">{log.time}</span>
-                <span className={`log-type ${getTypeClass(log.type)}`}>
-                  {getTypeLabel(log.type)}
-                </span>
-                <span className="log-action">{log.action}</span>
-                <span className="log-detail">{log.detail}</span>
+            {filteredLogs.map((log) => (
+              <div
+                key={log.id}
+                className={`mcp-log-entry ${log.data !== undefined ? 'expandable' : ''}`}
+                onClick={() => log.data !== undefined && toggleExpanded(log.id)}
+              >
+                <div className="mcp-log-summary">
+                  <span className="log-time">{log.time}</span>
+                  <span className={`log-type ${getTypeClass(log.type)}`}>
+                    {getTypeLabel(log.type)}
+                  </span>
+                  <span className="log-action">{log.action}</span>
+                  <span className="log-session" title={log.sessionId}>
+                    {shortSession(log.sessionId)}
+                  </span>
+                  <span className="log-detail">{log.detail}</span>
+                </div>
+                {expanded.has(log.id) && (
+                  <pre className="log-data" onClick={(e) => e.stopPropagation()}>
+                    {JSON.stringify(log.data, null, 2)}
+                  </pre>
+                )}
               </div>
             ))}
             <div ref={logsEndRef} />
@@ -0,0 +1,220 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { FrameSize, Point } from '../../shared/calibration';
+import { createScreenRegion, detectScreenQuad, ScreenRegion } from '../../shared/screen';
+import { useScreenRegion } from '../hooks/useScreenRegion';
+import './ScreenRegionEditor.css';
+
+interface ScreenRegionEditorProps {
+  /** Size of the captured (rotated) frame */
+  frameSize: FrameSize | null;
+  /** Draws the current rotated frame and returns its canvas (null if the video is not ready) */
+  captureFrame: () => HTMLCanvasElement | null;
+  /** Called when the editor is closed */
+  onClose: () => void;
+}
+
+/** Width of the downscaled frame searched by auto-detection */
+const DETECT_SAMPLE_WIDTH = 240;
+
+/** Corner names in the order corners are kept (top-left first, clockwise) */
+const CORNER_LABELS = ['左上', '右上', '右下', '左下'];
+
+/**
+ * Scales stored corners to the current frame size.
+ */
+function scaleCorners(region: ScreenRegion, frameSize: FrameSize): Point[] {
+  const sx = frameSize.width / region.frameWidth;
+  const sy = frameSize.height / region.frameHeight;
+  return region.corners.map(p => ({ x: Math.round(p.x * sx), y: Math.round(p.y * sy) }));
+}
+
+/**
+ * Finds the lit phone screen in the current frame.
+ * Searches a downscaled grayscale copy and scales the corners back to frame pixels.
+ *
+ * @returns Four corners in frame pixels, or null if no screen is found
+ */
+function detectCorners(frame: HTMLCanvasElement): Point[] | null {
+  const scale = Math.min(1, DETECT_SAMPLE_WIDTH / frame.width);
+  const sample = document.createElement('canvas');
+  sample.width = Math.round(frame.width * scale);
+  sample.height = Math.round(frame.height * scale);
+  const ctx = sample.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.drawImage(frame, 0, 0, sample.width, sample.height);
+  const { data } = ctx.getImageData(0, 0, sample.width, sample.height);
+  const gray = new Uint8Array(sample.width * sample.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+  }
+
+  const corners = detectScreenQuad(gray, { width: sample.width, height: sample.height });
+  return corners?.map(p => ({ x: Math.round(p.x / scale), y: Math.round(p.y / scale) })) ?? null;
+}
+
+/**
+ * Phone screen region editor.
+ * The operator clicks the four screen corners in the live video (clicking again
+ * moves the nearest corner) or detects the lit screen automatically; the
+ * corners are then saved so frames returned to MCP clients show the screen
+ * flattened. Rendered as an overlay inside the camera viewport like the
+ * calibration wizard, so clicks use frame pixel coordinates directly.
+ */
+function ScreenRegionEditor({ frameSize, captureFrame, onClose }: ScreenRegionEditorProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const region = useScreenRegion();
+  const [corners, setCorners] = useState<Point[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Starts from the stored corners once they are loaded.
+   */
+  useEffect(() => {
+    if (region && frameSize) {
+      setCorners(scaleCorners(region, frameSize));
+    }
+  }, [region, frameSize]);
+
+  const { draft, draftError } = useMemo((): { draft: ScreenRegion | null; draftError: string | null } => {
+    if (!frameSize || corners.length < 4) return { draft: null, draftError: null };
+    try {
+      return { draft: createScreenRegion(corners, frameSize), draftError: null };
+    } catch (err) {
+      return { draft: null, draftError: err instanceof Error ? err.message : String(err) };
+    }
+  }, [corners, frameSize]);
+
+  /**
+   * Adds a corner at the clicked frame pixel, or moves the nearest corner once all four are set.
+   * Converts the mouse position to frame pixels through the SVG coordinate system.
+   */
+  const handleOverlayClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix || saving) return;
+
+    const cursor = svg.createSVGPoint();
+    cursor.x = event.clientX;
+    cursor.y = event.clientY;
+    const pixel = cursor.matrixTransform(matrix.inverse());
+    const point = { x: Math.round(pixel.x), y: Math.round(pixel.y) };
+
+    if (corners.length < 4) {
+      setCorners([...corners, point]);
+      return;
+    }
+
+    const distance = (p: Point) => Math.hypot(p.x - point.x, p.y - point.y);
+    const nearest = corners.reduce((best, p, i) => (distance(p) < distance(corners[best]) ? i : best), 0);
+    setCorners(corners.map((p, i) => (i === nearest ? point : p)));
+  };
+
+  /**
+   * Detects the lit screen in the current frame and uses its corners.
+   */
+  const handleDetect = () => {
+    const frame = captureFrame();
+    if (!frame) {
+      setError('摄像头画面未就绪');
+      return;
+    }
+    const detected = detectCorners(frame);
+    if (!detected) {
+      setError('未检测到屏幕，请点亮屏幕后重试，或手动点击四个角');
+      return;
+    }
+    setError(null);
+    setCorners(detected);
+  };
+
+  /**
+   * Persists the screen region through the main process and closes the editor.
+   */
+  const handleSave = async () => {
+    if (!frameSize || !draft) return;
+
+    setSaving(true);
+    try {
+      await window.electronAPI.saveScreenRegion(corners, frameSize);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed');
+      setSaving(false);
+    }
+  };
+
+  /**
+   * Removes the stored screen region; returned frames show the whole camera frame again.
+   */
+  const handleClear = async () => {
+    try {
+      await window.electronAPI.clearScreenRegion();
+      setCorners([]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Clear failed');
+    }
+  };
+
+  const outline = draft?.corners ?? corners;
+
+  return (
+    <div className="screen-region-editor">
+      {frameSize && (
+        <svg
+          ref={svgRef}
+          className="overlay-frame interactive"
+          viewBox={`0 0 ${frameSize.width} ${frameSize.height}`}
+          preserveAspectRatio="xMidYMid meet"
+          onClick={handleOverlayClick}
+        >
+          {outline.length > 1 && (
+            <polygon
+              className={draftError ? 'screen-outline invalid' : 'screen-outline'}
+              points={outline.map(p => `${p.x},${p.y}`).join(' ')}
+            />
+          )}
+          {outline.map((p, i) => (
+            <g key={i}>
+              <circle className="screen-corner" cx={p.x} cy={p.y} r={12} />
+              <text className="screen-label" x={p.x + 16} y={p.y - 16}>
+                {draft ? CORNER_LABELS[i] : i + 1}
+              </text>
+            </g>
+          ))}
+        </svg>
+      )}
+
+      <div className="screen-panel">
+        <p>
+          {corners.length < 4
+            ? `请依次点击画面中手机屏幕的四个角（${corners.length}/4），或点亮屏幕后自动检测。`
+            : '点击画面可移动最近的角。保存后返回给 MCP 客户端的画面将被校正为正视的屏幕图像。'}
+        </p>
+        {draft && <p>校正后尺寸：{draft.outputWidth}×{draft.outputHeight} px</p>}
+        <div className="screen-actions">
+          <button className="overlay-btn" onClick={handleDetect} disabled={!frameSize || saving}>
+            自动检测
+          </button>
+          <button className="overlay-btn" onClick={() => setCorners([])} disabled={corners.length === 0 || saving}>
+            重新选择
+          </button>
+          <button className="overlay-btn active" onClick={handleSave} disabled={!draft || saving}>
+            {saving ? '保存中...' : '保存'}
+          </button>
+          {region && (
+            <button className="overlay-btn" onClick={handleClear} disabled={saving}>
+              清除
+            </button>
+          )}
+          <button className="overlay-btn" onClick={onClose} disabled={saving}>取消</button>
+        </div>
+        {(error ?? draftError) && <p className="screen-error">{error ?? draftError}</p>}
+      </div>
+    </div>
+  );
+}
+
+export default ScreenRegionEditor;
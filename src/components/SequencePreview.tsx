@@ -0,0 +1,236 @@
+import { useMemo, useState } from 'react';
+import { mmToPixel, FrameSize, Point } from '../../shared/calibration';
+import { checkDepth, checkPath, checkPosition, WorkspaceLimits } from '../../shared/workspace';
+import { expandSequence, AutoStep, LoadedSequence } from '../../shared/sequence';
+import { useCalibration } from '../hooks/useCalibration';
+import { useSequences } from '../hooks/useSequences';
+import { useWorkspaceLimits } from '../hooks/useWorkspaceLimits';
+import './SequencePreview.css';
+
+interface SequencePreviewProps {
+  /** Size of the captured (rotated) frame */
+  frameSize: FrameSize | null;
+  /** Called when the preview is closed */
+  onClose: () => void;
+}
+
+/** Arm positions touched (or passed over) at one spot, with the steps that use it */
+interface PreviewPoint {
+  /** Arm position in millimeters */
+  position: Point;
+  /** 1-based step numbers, as in the control panel step list */
+  steps: number[];
+  /** True if every step here only moves the arm */
+  moveOnly: boolean;
+  /** True if any step here is outside the workspace */
+  violation: boolean;
+}
+
+/** Swipe drawn as a path from its start to its end (arm positions in millimeters) */
+interface PreviewSwipe {
+  step: number;
+  from: Point;
+  to: Point;
+  violation: boolean;
+}
+
+/** Workspace violation found in a step */
+interface PreviewViolation {
+  step: number;
+  label: string;
+  message: string;
+}
+
+/** Everything drawn for one sequence */
+interface Preview {
+  points: PreviewPoint[];
+  swipes: PreviewSwipe[];
+  violations: PreviewViolation[];
+}
+
+/** Step numbers shown next to a point before the rest are counted */
+const MAX_POINT_LABELS = 3;
+
+/**
+ * Combines the workspace messages of a step, or returns null if there are none.
+ */
+function joinMessages(...messages: (string | null)[]): string | null {
+  const found = messages.filter((m): m is string => m !== null);
+  return found.length > 0 ? found.join(' ') : null;
+}
+
+/**
+ * Expands a sequence with its default parameter values and collects every arm
+ * position, checking its position or swipe path and its press depth against
+ * the workspace limits. Works in millimeters, so violations are found without
+ * a calibration. Checkpoint steps do not move the arm and are skipped. Steps
+ * at the same position share one marker.
+ *
+ * @throws Error if the sequence cannot be expanded with its defaults
+ */
+function buildPreview(sequence: LoadedSequence, limits: WorkspaceLimits): Preview {
+  const points = new Map<string, PreviewPoint>();
+  const swipes: PreviewSwipe[] = [];
+  const violations: PreviewViolation[] = [];
+
+  expandSequence(sequence).forEach((runStep, index) => {
+    if ('waitForStable' in runStep || 'waitForMatch' in runStep) return;
+    const step: AutoStep = runStep;
+    const number = index + 1;
+    const from = { x: step.x, y: step.y };
+    // Steps that touch the screen press at their depth, rounded as the arm driver does
+    const depthMessage = step.moveOnly ? null : checkDepth(limits, Math.max(0, Math.round(step.depth)));
+
+    if (step.swipeTo) {
+      const message = joinMessages(checkPath(limits, from, step.swipeTo), depthMessage);
+      swipes.push({ step: number, from, to: step.swipeTo, violation: message !== null });
+      if (message) violations.push({ step: number, label: step.label, message });
+      return;
+    }
+
+    const message = joinMessages(checkPosition(limits, from), depthMessage);
+    if (message) violations.push({ step: number, label: step.label, message });
+
+    const key = `${step.x},${step.y}`;
+    const point = points.get(key) ?? {
+      position: from,
+      steps: [],
+      moveOnly: true,
+      violation: false,
+    };
+    point.steps.push(number);
+    point.moveOnly = point.moveOnly && step.moveOnly === true;
+    point.violation = point.violation || message !== null;
+    points.set(key, point);
+  });
+
+  return { points: Array.from(points.values()), swipes, violations };
+}
+
+/**
+ * Formats the step numbers at a point, e.g. "1,2,3 +5".
+ */
+function formatPointLabel(steps: number[]): string {
+  const shown = steps.slice(0, MAX_POINT_LABELS).join(',');
+  return steps.length > MAX_POINT_LABELS ? `${shown} +${steps.length - MAX_POINT_LABELS}` : shown;
+}
+
+/**
+ * Dry-run preview of an auto-operation sequence over the live video.
+ * Sends no arm commands: it draws the numbered touch points and swipe paths
+ * of the chosen sequence (with default parameter values) through the camera
+ * calibration, and flags every step outside the workspace limits. Violations
+ * are listed even without a calibration; only the overlay needs one.
+ * Rendered as an overlay inside the camera viewport like the calibration wizard.
+ */
+function SequencePreview({ frameSize, onClose }: SequencePreviewProps) {
+  const { calibration } = useCalibration();
+  const { sequences } = useSequences();
+  const limits = useWorkspaceLimits();
+  const [selectedId, setSelectedId] = useState('');
+
+  const sequence = sequences.find(s => s.id === selectedId) ?? sequences[0] ?? null;
+
+  const { preview, error } = useMemo((): { preview: Preview | null; error: string | null } => {
+    if (!sequence) return { preview: null, error: null };
+    try {
+      return { preview: buildPreview(sequence, limits), error: null };
+    } catch (err) {
+      return { preview: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [sequence, limits]);
+
+  // The overlay needs the calibration to place arm positions in the frame
+  const toPixel = calibration && frameSize ? (p: Point) => mmToPixel(calibration, p, frameSize) : null;
+
+  return (
+    <div className="sequence-preview">
+      {frameSize && toPixel && preview && (
+        <svg
+          className="overlay-frame"
+          viewBox={`0 0 ${frameSize.width} ${frameSize.height}`}
+          preserveAspectRatio="xMidYMid meet"
+        >
+          <defs>
+            <marker id="preview-arrow" viewBox="0 0 10 10" refX="8" refY="5" markerWidth="4" markerHeight="4" orient="auto">
+              <path d="M0,0 L10,5 L0,10 z" className="preview-arrow" />
+            </marker>
+          </defs>
+          {preview.swipes.map((swipe, i) => {
+            const from = toPixel(swipe.from);
+            const to = toPixel(swipe.to);
+            return (
+              <g key={`swipe-${i}`} className={swipe.violation ? 'preview-violation' : undefined}>
+                <line
+                  className="preview-swipe"
+                  x1={from.x}
+                  y1={from.y}
+                  x2={to.x}
+                  y2={to.y}
+                  markerEnd="url(#preview-arrow)"
+                />
+                <text className="preview-label" x={from.x + 16} y={from.y - 16}>
+                  {swipe.step}
+                </text>
+              </g>
+            );
+          })}
+          {preview.points.map((point, i) => {
+            const pixel = toPixel(point.position);
+            return (
+              <g key={`point-${i}`} className={point.violation ? 'preview-violation' : undefined}>
+                <circle
+                  className={point.moveOnly ? 'preview-move' : 'preview-tap'}
+                  cx={pixel.x}
+                  cy={pixel.y}
+                  r={point.moveOnly ? 8 : 14}
+                />
+                <text className="preview-label" x={pixel.x + 18} y={pixel.y - 18}>
+                  {formatPointLabel(point.steps)}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      )}
+
+      <div className="preview-panel">
+        <div className="preview-actions">
+          <label>
+            预演序列
+            <select
+              value={sequence?.id ?? ''}
+              onChange={(e) => setSelectedId(e.target.value)}
+              disabled={sequences.length === 0}
+            >
+              {sequences.length === 0 && <option value="">无可用序列</option>}
+              {sequences.map(seq => (
+                <option key={seq.id} value={seq.id}>{seq.name}</option>
+              ))}
+            </select>
+          </label>
+          <button className="overlay-btn" onClick={onClose}>关闭</button>
+        </div>
+        {!calibration && <p>需要先完成校准才能在画面中显示轨迹。</p>}
+        {preview && (
+          <p>
+            预演不会移动机械臂 · 参数使用默认值 · {preview.points.length} 个位置 · {preview.swipes.length} 条滑动轨迹
+          </p>
+        )}
+        {preview && preview.violations.length === 0 && <p>所有步骤均在工作区范围内。</p>}
+        {preview && preview.violations.length > 0 && (
+          <ul className="preview-violations">
+            {preview.violations.map(v => (
+              <li key={v.step}>
+                步骤 {v.step} {v.label}: {v.message}
+              </li>
+            ))}
+          </ul>
+        )}
+        {error && <p className="preview-error">{error}</p>}
+      </div>
+    </div>
+  );
+}
+
+export default SequencePreview;
@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { useSequenceRecorder } from '../hooks/useSequenceRecorder';
+import { getArmErrorMessage } from '../hooks/useArmState';
+import { SEQUENCE_FORMAT_VERSION } from '../../shared/sequence';
+import './SequenceRecorder.css';
+
+interface SequenceRecorderProps {
+  /** Disables recording controls (e.g. while an auto operation runs) */
+  disabled: boolean;
+  /** Called with a log line after a recording is saved */
+  onSaved: (name: string, file: string) => void;
+}
+
+/**
+ * Builds a sequence ID from the current time, e.g. rec-20260101-120000.
+ */
+function createRecordingId(): string {
+  const now = new Date();
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `rec-${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}` +
+    `-${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+}
+
+/**
+ * Record mode for auto-operation sequences.
+ * Captures jogs, clicks and swipes as steps, plus screen checkpoints on request,
+ * lets the operator label or drop them, and saves the result as a new sequence
+ * file that the runner picks up.
+ */
+function SequenceRecorder({ disabled, onSaved }: SequenceRecorderProps) {
+  const recorder = useSequenceRecorder();
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canSave = !recorder.isRecording && recorder.steps.length > 0 && !isSaving;
+
+  /**
+   * Saves the current frame as a reference and adds a step that waits for it.
+   * The whole frame is compared; narrow it with a region in the saved file.
+   */
+  const handleAddMatchCheckpoint = async () => {
+    setError(null);
+    try {
+      const reference = await window.electronAPI.captureReferenceFrame();
+      recorder.addCheckpoint({ label: `检查点 ${reference}`, waitForMatch: { reference } });
+    } catch (err) {
+      setError(getArmErrorMessage(err, 'Capture failed'));
+    }
+  };
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    const id = createRecordingId();
+    const sequenceName = name.trim() || id;
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await window.electronAPI.saveSequence({
+        version: SEQUENCE_FORMAT_VERSION,
+        type: 'sequence',
+        id,
+        name: sequenceName,
+        skipPrefix: true,
+        skipSuffix: true,
+        steps: recorder.steps,
+      });
+      onSaved(sequenceName, `${id}.json`);
+      recorder.clear();
+      setName('');
+    } catch (err) {
+      setError(getArmErrorMessage(err, 'Save failed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="control-section sequence-recorder">
+      <h3>录制序列</h3>
+      <div className="recorder-row">
+        <button
+          className={`btn btn-record ${recorder.isRecording ? 'btn-secondary recording' : 'btn-primary'}`}
+          onClick={recorder.isRecording ? recorder.stop : recorder.start}
+          disabled={disabled && !recorder.isRecording}
+        >
+          {recorder.isRecording ? `停止录制 (${recorder.steps.length})` : '开始录制'}
+        </button>
+        {recorder.isRecording && (
+          <>
+            <button
+              className="btn btn-secondary btn-recorder"
+              onClick={handleAddMatchCheckpoint}
+              title="保存当前画面为参考帧，回放时等待画面与之匹配"
+            >
+              检查点
+            </button>
+            <button
+              className="btn btn-secondary btn-recorder"
+              onClick={() => recorder.addCheckpoint({ label: '等待画面稳定', waitForStable: {} })}
+              title="回放时等待画面停止变化"
+            >
+              等待稳定
+            </button>
+          </>
+        )}
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="序列名称"
+          className="recorder-name"
+          disabled={recorder.isRecording}
+        />
+        <button className="btn btn-primary btn-recorder" onClick={handleSave} disabled={!canSave}>
+          {isSaving ? '保存中...' : '保存'}
+        </button>
+        <button
+          className="btn btn-secondary btn-recorder"
+          onClick={recorder.clear}
+          disabled={recorder.steps.length === 0 || isSaving}
+        >
+          清空
+        </button>
+      </div>
+      {recorder.steps.length > 0 && (
+        <ol className="recorder-steps">
+          {recorder.steps.map((step, index) => (
+            <li key={index}>
+              <input
+                type="text"
+                value={step.label}
+                onChange={(e) => recorder.updateLabel(index, e.target.value)}
+                className="recorder-step-label"
+              />
+              {step.delayAfter !== undefined && (
+                <span className="recorder-step-delay">+{step.delayAfter}ms</span>
+              )}
+              <button
+                className="btn-step-remove"
+                onClick={() => recorder.removeStep(index)}
+                title="删除此步骤"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+      {error && <div className="error-message">{error}</div>}
+    </div>
+  );
+}
+
+export default SequenceRecorder;
@@ -0,0 +1,95 @@
+import { useEffect, useRef } from 'react';
+import type { RunStep } from '../../shared/sequence';
+import './SequenceStepList.css';
+
+interface SequenceStepListProps {
+  /** Expanded steps of the selected sequence */
+  steps: RunStep[];
+  /** Index of the step being run or paused before, or null when idle */
+  currentIndex: number | null;
+  /** Whether the run is paused before the current step */
+  isPaused: boolean;
+  /** Index the next run starts at */
+  startAt: number;
+  /** Indices the run pauses before */
+  breakpoints: number[];
+  /** Disables choosing the start step (e.g. while a run is active) */
+  disabled: boolean;
+  onToggleBreakpoint: (index: number) => void;
+  onSelectStart: (index: number) => void;
+}
+
+/**
+ * Describes what a step does, e.g. "点击 (25,50)" or "等待画面稳定".
+ */
+function describeStep(step: RunStep): string {
+  if ('waitForStable' in step) return '等待稳定';
+  if ('waitForMatch' in step) return `匹配 ${step.waitForMatch.reference}`;
+  if (step.swipeTo) return `滑动 (${step.x},${step.y}) → (${step.swipeTo.x},${step.swipeTo.y})`;
+  if (step.moveOnly) return `移动 (${step.x},${step.y})`;
+  if (step.doubleTapGap !== undefined) return `双击 (${step.x},${step.y})`;
+  if (step.longPressDuration !== undefined) return `长按 (${step.x},${step.y})`;
+  return `点击 (${step.x},${step.y})`;
+}
+
+/**
+ * Step list for the auto-operation debugger.
+ * Shows the expanded steps of a sequence with a breakpoint toggle per step,
+ * marks the step the next run starts at and highlights the step being run.
+ */
+function SequenceStepList({
+  steps,
+  currentIndex,
+  isPaused,
+  startAt,
+  breakpoints,
+  disabled,
+  onToggleBreakpoint,
+  onSelectStart,
+}: SequenceStepListProps) {
+  const currentRef = useRef<HTMLLIElement>(null);
+
+  // Keep the current step in view as the run advances
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [currentIndex]);
+
+  return (
+    <ol className="sequence-steps">
+      {steps.map((step, index) => {
+        const isCurrent = index === currentIndex;
+        const hasBreakpoint = breakpoints.includes(index);
+        const kind = describeStep(step);
+        const className = [
+          'sequence-step',
+          isCurrent ? (isPaused ? 'paused' : 'current') : '',
+          currentIndex === null && index === startAt ? 'start' : '',
+        ].filter(Boolean).join(' ');
+
+        return (
+          <li key={index} ref={isCurrent ? currentRef : undefined} className={className}>
+            <button
+              className={`btn-breakpoint ${hasBreakpoint ? 'active' : ''}`}
+              onClick={() => onToggleBreakpoint(index)}
+              title={hasBreakpoint ? '移除断点' : '设置断点（运行到此步骤前暂停）'}
+            >
+              ●
+            </button>
+            <button
+              className="sequence-step-label"
+              onClick={() => onSelectStart(index)}
+              disabled={disabled}
+              title="从此步骤开始"
+            >
+              <span className="sequence-step-index">{index + 1}</span>
+              {step.label}
+              {kind !== step.label && <span className="sequence-step-kind">{kind}</span>}
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+export default SequenceStepList;
@@ -1,22 +1,15 @@
+import { ARM_CONFIG } from '../../shared/arm';
+
 /**
- * Arm controller configuration.
- * Contains default values for server connection, timing, and movement settings.
+ * Arm controller UI configuration.
+ * Protocol and timing settings live in the shared ARM_CONFIG used by the arm driver;
+ * this adds connection defaults and the options offered by the control panels.
  */
 export const ARM_CONTROLLER_CONFIG = {
   /** Default server IP address */
-  defaultServerIP: '192.168.5.106',
-  /** API service port */
-  apiPort: '8082',
+  defaultServerIP: ARM_CONFIG.defaultServerIP,
   /** Default COM port */
-  defaultComPort: 'COM3',
-  /** API endpoint path */
-  apiPath: '/MyWcfService/getstring',
-  /** Delay after connection for device to be ready (ms) */
-  deviceReadyDelay: 2000,
-  /** Delay between sequential commands (ms) */
-  commandDelay: 300,
-  /** Delay for click operation (ms) */
-  clickDelay: 250,
+  defaultComPort: ARM_CONFIG.defaultComPort,
   /** Available step size options */
   stepOptions: [1, 5, 10, 20] as const,
   /** Default step size for movement */
@@ -24,52 +17,26 @@ export const ARM_CONTROLLER_CONFIG = {
   /** Available Z-axis depth options (in mm) */
   zDepthOptions: [6, 8, 10, 12] as const,
   /** Default Z-axis depth for click */
-  defaultZDepth: 12,
+  defaultZDepth: ARM_CONFIG.defaultZDepth,
   /** Z-axis value for stylus up */
-  zUp: 0,
+  zUp: ARM_CONFIG.zUp,
+  /** Arm positions (mm) visited by the calibration wizard */
+  calibrationTargets: [
+    { x: 15, y: 30 },
+    { x: 35, y: 30 },
+    { x: 55, y: 30 },
+    { x: 15, y: 55 },
+    { x: 35, y: 55 },
+    { x: 55, y: 55 },
+    { x: 15, y: 80 },
+    { x: 35, y: 80 },
+    { x: 55, y: 80 },
+  ],
+  /** Available hover depth options for calibration (stylus close to, but not touching, the screen) */
+  calibrationHoverDepthOptions: [0, 2, 4, 6, 8] as const,
+  /** Default hover depth for calibration */
+  defaultCalibrationHoverDepth: 4,
+  /** Delay after moving to a calibration target before lowering the stylus (ms) */
+  calibrationSettleDelay: 500,
 } as const;
 
-/**
- * Parses server response by removing surrounding quotes.
- * The server returns JSON-formatted strings (e.g., "1136"), which need quote stripping.
- *
- * @param response - Raw response string from server
- * @returns Cleaned string without surrounding quotes
- */
-export function parseServerResponse(response: string): string {
-  return response.replace(/^"|"$/g, '');
-}
-
-/**
- * Parses resource handle from server response.
- * Returns the parsed number, or 0 if parsing fails.
- *
- * @param response - Raw response string from server
- * @returns Parsed resource handle (> 0 for success, 0 for failure)
- */
-export function parseResourceHandle(response: string): number {
-  const cleanResult = parseServerResponse(response);
-  const handle = parseInt(cleanResult, 10);
-  return isNaN(handle) ? 0 : handle;
-}
-
-/**
- * Builds the API URL for arm controller commands.
- *
- * @param serverIP - Server IP address
- * @param params - Command parameters (duankou, hco, daima)
- * @returns Complete API URL with query parameters
- */
-export function buildArmApiUrl(
-  serverIP: string,
-  params: { duankou: string; hco: number; daima: string }
-): string {
-  const { apiPort, apiPath } = ARM_CONTROLLER_CONFIG;
-  const baseUrl = `http://${serverIP}:${apiPort}${apiPath}`;
-  const queryParams = new URLSearchParams({
-    duankou: params.duankou,
-    hco: params.hco.toString(),
-    daima: params.daima,
-  });
-  return `${baseUrl}?${queryParams.toString()}`;
-}
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import type { ArmLease } from '../../shared/arm';
+
+/**
+ * Provides the MCP session lease on the arm.
+ * Loads the current lease and stays in sync as sessions acquire, renew and release it.
+ *
+ * @returns Current lease, or null when no MCP session holds the arm
+ */
+export function useArmLease(): ArmLease | null {
+  const [lease, setLease] = useState<ArmLease | null>(null);
+
+  useEffect(() => {
+    window.electronAPI?.getArmLease?.().then(setLease);
+    const unsubscribe = window.electronAPI?.onArmLeaseChanged?.(setLease);
+    return () => {
+      unsubscribe?.();
+    };
+  }, []);
+
+  return lease;
+}
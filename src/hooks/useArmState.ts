@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { createInitialArmState } from '../../shared/arm';
+import type { ArmState } from '../../shared/arm';
+
+/** Prefix Electron adds to errors thrown by main-process IPC handlers */
+const IPC_ERROR_PREFIX = /^Error invoking remote method '[^']+': (Error: )?/;
+
+/**
+ * Extracts a readable message from an error thrown by an arm IPC call.
+ *
+ * @param error - Caught error
+ * @param fallback - Message used when the error carries none
+ * @returns Driver error message without the IPC prefix
+ */
+export function getArmErrorMessage(error: unknown, fallback = 'Unknown'): string {
+  if (!(error instanceof Error)) return fallback;
+  return error.message.replace(IPC_ERROR_PREFIX, '') || fallback;
+}
+
+/**
+ * Provides the arm state owned by the main-process driver.
+ * Loads the current state and stays in sync with changes made by the UI and MCP clients.
+ *
+ * @returns Current arm state
+ */
+export function useArmState(): ArmState {
+  const [armState, setArmState] = useState<ArmState>(createInitialArmState);
+
+  useEffect(() => {
+    window.electronAPI?.getArmState?.().then(setArmState);
+    const unsubscribe = window.electronAPI?.onArmStateChanged?.(setArmState);
+    return () => {
+      unsubscribe?.();
+    };
+  }, []);
+
+  return armState;
+}
@@ -0,0 +1,48 @@
+import { useEffect, useState, useCallback } from 'react';
+import {
+  pixelToMm,
+  mmToPixel,
+  isInCalibratedArea,
+  CalibrationModel,
+  FrameSize,
+  Point,
+} from '../../shared/calibration';
+
+/**
+ * Provides the active camera-to-arm calibration in the renderer.
+ * Loads the model from the main process and stays in sync with changes.
+ * Transforms return null when no calibration is loaded.
+ *
+ * @returns Calibration model and pixel↔mm transforms
+ */
+export function useCalibration() {
+  const [calibration, setCalibration] = useState<CalibrationModel | null>(null);
+
+  useEffect(() => {
+    window.electronAPI?.getCalibration?.().then(setCalibration);
+    const unsubscribe = window.electronAPI?.onCalibrationChanged?.(setCalibration);
+    return () => {
+      unsubscribe?.();
+    };
+  }, []);
+
+  const toMm = useCallback(
+    (pixel: Point, frame?: FrameSize): Point | null =>
+      calibration ? pixelToMm(calibration, pixel, frame) : null,
+    [calibration]
+  );
+
+  const toPixel = useCallback(
+    (arm: Point, frame?: FrameSize): Point | null =>
+      calibration ? mmToPixel(calibration, arm, frame) : null,
+    [calibration]
+  );
+
+  const isCalibrated = useCallback(
+    (pixel: Point, frame?: FrameSize): boolean =>
+      calibration ? isInCalibratedArea(calibration, pixel, frame) : false,
+    [calibration]
+  );
+
+  return { calibration, toMm, toPixel, isCalibrated };
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import type { SessionRecording } from '../../shared/recording';
+
+/**
+ * Provides the active session recording.
+ * Loads it from the main process and stays in sync with recordings
+ * started or stopped from the UI or over MCP.
+ *
+ * @returns Active recording, or null if not recording
+ */
+export function useRecording(): SessionRecording | null {
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+
+  useEffect(() => {
+    window.electronAPI?.getRecording?.().then(setRecording);
+    const unsubscribe = window.electronAPI?.onRecordingChanged?.(setRecording);
+    return () => {
+      unsubscribe?.();
+    };
+  }, []);
+
+  return recording;
+}
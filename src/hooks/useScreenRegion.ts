@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import type { ScreenRegion } from '../../shared/screen';
+
+/**
+ * Provides the phone screen region used to flatten frames.
+ * Loads the region from the main process and stays in sync with changes.
+ *
+ * @returns Active screen region, or null if none is configured
+ */
+export function useScreenRegion(): ScreenRegion | null {
+  const [region, setRegion] = useState<ScreenRegion | null>(null);
+
+  useEffect(() => {
+    window.electronAPI?.getScreenRegion?.().then(setRegion);
+    const unsubscribe = window.electronAPI?.onScreenRegionChanged?.(setRegion);
+    return () => {
+      unsubscribe?.();
+    };
+  }, []);
+
+  return region;
+}
@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ARM_CONFIG, ArmAction } from '../../shared/arm';
+import type { AutoStep, CheckpointStep, RunStep } from '../../shared/sequence';
+
+/** Recorded delays are rounded to this many ms */
+const DELAY_ROUNDING = 100;
+
+/** Steps recorded so far and when the last one finished */
+interface Recording {
+  steps: RunStep[];
+  lastFinishedAt: number | null;
+}
+
+/** Sequence recorder state and actions */
+export interface SequenceRecorder {
+  isRecording: boolean;
+  steps: RunStep[];
+  start: () => void;
+  stop: () => void;
+  addCheckpoint: (step: CheckpointStep) => void;
+  updateLabel: (index: number, label: string) => void;
+  removeStep: (index: number) => void;
+  clear: () => void;
+}
+
+const EMPTY_RECORDING: Recording = { steps: [], lastFinishedAt: null };
+
+/**
+ * Builds the step for a touch action (click, long press or double tap).
+ */
+function touchStep(action: Extract<ArmAction, { type: 'press' | 'doubleTap' }>): AutoStep {
+  const { x, y, depth } = action;
+  if (action.type === 'doubleTap') {
+    return { label: `双击 (${x},${y})`, x, y, depth, doubleTapGap: action.gapMs };
+  }
+  if (action.holdMs > ARM_CONFIG.clickDelay) {
+    return { label: `长按 (${x},${y})`, x, y, depth, longPressDuration: action.holdMs };
+  }
+  return { label: `点击 (${x},${y})`, x, y, depth };
+}
+
+/**
+ * Sets the previous step's delayAfter to the idle time before a new step.
+ */
+function withIdleDelay(recording: Recording, startedAt: number): RunStep[] {
+  const steps = recording.steps.slice();
+  const last = steps[steps.length - 1];
+  if (last && recording.lastFinishedAt !== null) {
+    const idle = startedAt - recording.lastFinishedAt;
+    steps[steps.length - 1] = {
+      ...last,
+      delayAfter: Math.max(0, Math.round(idle / DELAY_ROUNDING) * DELAY_ROUNDING),
+    };
+  }
+  return steps;
+}
+
+/**
+ * Adds a completed arm action to a recording.
+ * Consecutive moves collapse into one absolute move, and a touch at the position
+ * of a preceding move replaces it. The idle time before each new step is stored
+ * as the previous step's delayAfter.
+ */
+function appendAction(recording: Recording, action: ArmAction): Recording {
+  const last = recording.steps[recording.steps.length - 1];
+  const lastMove = last && 'moveOnly' in last && last.moveOnly ? last : null;
+
+  if (action.type === 'move' && lastMove) {
+    const steps = recording.steps.slice();
+    steps[steps.length - 1] = { ...lastMove, x: action.x, y: action.y, label: `移动 (${action.x},${action.y})` };
+    return { steps, lastFinishedAt: action.finishedAt };
+  }
+
+  if (
+    (action.type === 'press' || action.type === 'doubleTap') &&
+    lastMove &&
+    lastMove.x === action.x &&
+    lastMove.y === action.y
+  ) {
+    const steps = recording.steps.slice();
+    steps[steps.length - 1] = { ...touchStep(action), delayAfter: lastMove.delayAfter };
+    return { steps, lastFinishedAt: action.finishedAt };
+  }
+
+  const steps = withIdleDelay(recording, action.startedAt);
+
+  switch (action.type) {
+    case 'move':
+      steps.push({ label: `移动 (${action.x},${action.y})`, x: action.x, y: action.y, depth: 0, moveOnly: true });
+      break;
+    case 'press':
+    case 'doubleTap':
+      steps.push(touchStep(action));
+      break;
+    case 'swipe':
+      steps.push({
+        label: `滑动 (${action.from.x},${action.from.y}) → (${action.to.x},${action.to.y})`,
+        x: action.from.x,
+        y: action.from.y,
+        depth: action.depth,
+        swipeTo: action.to,
+        swipeHoldDelay: action.holdMs,
+      });
+      break;
+  }
+
+  return { steps, lastFinishedAt: action.finishedAt };
+}
+
+/**
+ * Records arm gestures into auto-operation steps.
+ * While recording, every completed move, click and swipe from the driver
+ * (control panel or MCP) is appended with the timing between them.
+ * Screen checkpoints can be inserted between gestures.
+ *
+ * @returns Recorded steps and recorder controls
+ */
+export function useSequenceRecorder(): SequenceRecorder {
+  const [isRecording, setIsRecording] = useState(false);
+  const [recording, setRecording] = useState<Recording>(EMPTY_RECORDING);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const unsubscribe = window.electronAPI?.onArmAction?.((action) => {
+      setRecording(prev => appendAction(prev, action));
+    });
+    return () => {
+      unsubscribe?.();
+    };
+  }, [isRecording]);
+
+  const start = useCallback(() => {
+    setRecording(EMPTY_RECORDING);
+    setIsRecording(true);
+  }, []);
+
+  const stop = useCallback(() => {
+    setIsRecording(false);
+  }, []);
+
+  const addCheckpoint = useCallback((step: CheckpointStep) => {
+    const now = Date.now();
+    setRecording(prev => {
+      const steps = withIdleDelay(prev, now);
+      steps.push(step);
+      return { steps, lastFinishedAt: now };
+    });
+  }, []);
+
+  const updateLabel = useCallback((index: number, label: string) => {
+    setRecording(prev => ({
+      ...prev,
+      steps: prev.steps.map((step, i) => (i === index ? { ...step, label } : step)),
+    }));
+  }, []);
+
+  const removeStep = useCallback((index: number) => {
+    setRecording(prev => ({ ...prev, steps: prev.steps.filter((_, i) => i !== index) }));
+  }, []);
+
+  const clear = useCallback(() => {
+    setRecording(EMPTY_RECORDING);
+  }, []);
+
+  return { isRecording, steps: recording.steps, start, stop, addCheckpoint, updateLabel, removeStep, clear };
+}
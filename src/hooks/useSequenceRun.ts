@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import type { SequenceRunProgress } from '../../shared/sequence';
+
+/**
+ * Provides the progress of the sequence run in the main process.
+ * Follows runs started from the control panel and from MCP clients.
+ *
+ * @returns Latest progress (kept after the run ends), or null before any run
+ */
+export function useSequenceRun(): SequenceRunProgress | null {
+  const [progress, setProgress] = useState<SequenceRunProgress | null>(null);
+
+  useEffect(() => {
+    window.electronAPI?.getSequenceRun?.().then(setProgress);
+    const unsubscribe = window.electronAPI?.onSequenceRunProgress?.(setProgress);
+    return () => {
+      unsubscribe?.();
+    };
+  }, []);
+
+  return progress;
+}
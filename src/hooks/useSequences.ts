@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import type { SequenceLibrary } from '../../shared/sequence';
+
+/**
+ * Provides the auto-operation sequences loaded by the main process.
+ * Loads the library and stays in sync as files in the sequences directory change.
+ *
+ * @returns Loaded sequences and per-file load errors
+ */
+export function useSequences(): SequenceLibrary {
+  const [library, setLibrary] = useState<SequenceLibrary>({ sequences: [], errors: [] });
+
+  useEffect(() => {
+    window.electronAPI?.getSequences?.().then(setLibrary);
+    const unsubscribe = window.electronAPI?.onSequencesChanged?.(setLibrary);
+    return () => {
+      unsubscribe?.();
+    };
+  }, []);
+
+  return library;
+}
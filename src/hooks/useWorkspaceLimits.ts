@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { DEFAULT_WORKSPACE_LIMITS, WorkspaceLimits } from '../../shared/workspace';
+
+/**
+ * Provides the workspace limits enforced by the arm driver.
+ * Loads the limits from the main process and stays in sync with changes.
+ *
+ * @returns Active workspace limits (defaults until loaded)
+ */
+export function useWorkspaceLimits(): WorkspaceLimits {
+  const [limits, setLimits] = useState<WorkspaceLimits>(DEFAULT_WORKSPACE_LIMITS);
+
+  useEffect(() => {
+    window.electronAPI?.getWorkspaceLimits?.().then(setLimits);
+    const unsubscribe = window.electronAPI?.onWorkspaceChanged?.(setLimits);
+    return () => {
+      unsubscribe?.();
+    };
+  }, []);
+
+  return limits;
+}
@@ -1,9 +1,39 @@
 /// <reference types="vite/client" />
 
+type CalibrationModel = import('../shared/calibration').CalibrationModel;
+type CalibrationPoint = import('../shared/calibration').CalibrationPoint;
+type FrameSize = import('../shared/calibration').FrameSize;
+type Point = import('../shared/calibration').Point;
+type ScreenRegion = import('../shared/screen').ScreenRegion;
+type ArmState = import('../shared/arm').ArmState;
+type ArmLease = import('../shared/arm').ArmLease;
+type ArmAction = import('../shared/arm').ArmAction;
+type WorkspaceLimits = import('../shared/workspace').WorkspaceLimits;
+type CapturedFrame = import('../shared/frame').CapturedFrame;
+type FrameCaptureRequest = import('../shared/frame').FrameCaptureRequest;
+type SessionRecording = import('../shared/recording').SessionRecording;
+type SessionRecordingSummary = import('../shared/recording').SessionRecordingSummary;
+type RecordingControlRequest = import('../shared/recording').RecordingControlRequest;
+type SequenceLibrary = import('../shared/sequence').SequenceLibrary;
+type SequenceFile = import('../shared/sequence').SequenceFile;
+type SequenceParamValues = import('../shared/sequence').SequenceParamValues;
+type SequenceRunOptions = import('../shared/sequence').SequenceRunOptions;
+type SequenceRunProgress = import('../shared/sequence').SequenceRunProgress;
+type SequenceRunSummary = import('../shared/sequence').SequenceRunSummary;
+
+interface ArmPosition {
+  x: number;
+  y: number;
+}
+
 interface McpLogPayload {
   type: 'request' | 'response' | 'error' | 'info';
   action: string;
   detail: string;
+  /** MCP session of the tool call that logged the entry */
+  sessionId?: string;
+  /** Full JSON arguments (requests) or result (responses and errors) */
+  data?: unknown;
 }
 
 interface Window {
@@ -12,12 +42,73 @@ interface Window {
     getPlatform: () => Promise<string>;
     onMainProcessMessage: (callback: (message: string) => void) => void;
     sendMessage: (channel: string, data: unknown) => void;
-    httpRequest: (url: string) => Promise<{ status: number; data: string }>;
+    // Arm driver
+    getArmState: () => Promise<ArmState>;
+    armConnect: (serverIP: string, comPort: string) => Promise<number>;
+    armDisconnect: () => Promise<void>;
+    armMoveTo: (x: number, y: number) => Promise<ArmPosition>;
+    armSetZ: (z: number) => Promise<void>;
+    armPress: (depth: number, holdMs?: number) => Promise<void>;
+    armSwipe: (
+      from: ArmPosition,
+      to: ArmPosition,
+      depth: number,
+      holdMs?: number
+    ) => Promise<{ from: ArmPosition; to: ArmPosition }>;
+    armDoubleTap: (depth: number, gapMs?: number) => Promise<void>;
+    onArmStateChanged: (callback: (state: ArmState) => void) => () => void;
+    onArmAction: (callback: (action: ArmAction) => void) => () => void;
+    // Arm lease
+    getArmLease: () => Promise<ArmLease | null>;
+    releaseArmLease: () => Promise<void>;
+    onArmLeaseChanged: (callback: (lease: ArmLease | null) => void) => () => void;
     // MCP Frame capture
-    onCaptureFrameRequest: (callback: () => void) => () => void;
-    sendCaptureFrameResponse: (frame: string | null) => void;
+    onCaptureFrameRequest: (callback: (request: FrameCaptureRequest) => void) => () => void;
+    sendCaptureFrameResponse: (id: number, frame: CapturedFrame | null) => void;
     onMcpServerReady: (callback: (info: { port: number }) => void) => void;
+    // Recording
+    getRecording: () => Promise<SessionRecording | null>;
+    startRecording: () => Promise<SessionRecording>;
+    stopRecording: () => Promise<SessionRecordingSummary>;
+    onRecordingChanged: (callback: (recording: SessionRecording | null) => void) => () => void;
+    onRecordingControlRequest: (callback: (request: RecordingControlRequest) => void) => () => void;
+    sendRecordingControlResponse: (id: number, error: string | null) => void;
+    sendRecordingChunk: (recordingId: string, data: Uint8Array) => void;
     // MCP Logs
     onMcpLog: (callback: (log: McpLogPayload) => void) => () => void;
+    openAuditFolder: () => Promise<void>;
+    // Calibration
+    getCalibration: () => Promise<CalibrationModel | null>;
+    saveCalibration: (points: CalibrationPoint[], frame: FrameSize) => Promise<CalibrationModel>;
+    clearCalibration: () => Promise<void>;
+    onCalibrationChanged: (callback: (model: CalibrationModel | null) => void) => () => void;
+    // Screen region
+    getScreenRegion: () => Promise<ScreenRegion | null>;
+    saveScreenRegion: (corners: Point[], frame: FrameSize) => Promise<ScreenRegion>;
+    clearScreenRegion: () => Promise<void>;
+    onScreenRegionChanged: (callback: (region: ScreenRegion | null) => void) => () => void;
+    // Workspace
+    getWorkspaceLimits: () => Promise<WorkspaceLimits>;
+    saveWorkspaceLimits: (limits: WorkspaceLimits) => Promise<WorkspaceLimits>;
+    onWorkspaceChanged: (callback: (limits: WorkspaceLimits) => void) => () => void;
+    // Sequences
+    getSequences: () => Promise<SequenceLibrary>;
+    saveSequence: (sequence: SequenceFile) => Promise<SequenceLibrary>;
+    captureReferenceFrame: () => Promise<string>;
+    openSequencesFolder: () => Promise<void>;
+    onSequencesChanged: (callback: (library: SequenceLibrary) => void) => () => void;
+    // Sequence runs
+    runSequence: (
+      id: string,
+      values?: SequenceParamValues,
+      options?: SequenceRunOptions
+    ) => Promise<SequenceRunSummary>;
+    cancelSequence: () => Promise<boolean>;
+    pauseSequence: () => Promise<boolean>;
+    resumeSequence: () => Promise<boolean>;
+    stepSequence: () => Promise<boolean>;
+    setSequenceBreakpoints: (indices: number[]) => Promise<void>;
+    getSequenceRun: () => Promise<SequenceRunProgress | null>;
+    onSequenceRunProgress: (callback: (progress: SequenceRunProgress) => void) => () => void;
   };
 }